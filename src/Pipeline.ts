@@ -1,123 +1,586 @@
 import * as THREE from 'three'
 import { Scene } from './Scene'
-import { FogMaterial } from './materials/FogMaterial'
-import { ComposeMaterial } from './materials/ComposeMaterial'
+import { FogMaterial, MAX_FOG_LOCAL_LIGHTS, MAX_FOG_VOLUMES } from './materials/FogMaterial'
+import { ComposeMaterial, FogCompositeMode } from './materials/ComposeMaterial'
 import { StochasticDepthMaterial } from './materials/StochasticDepthMaterial'
 import { FogBlendMaterial } from './materials/FogBlendMaterial'
-import { DepthPassMaterial } from './materials/DepthPassMaterial'
+import { DebugView, DebugViewLayout, DebugViewMaterial } from './materials/DebugViewMaterial'
+import { TAAVelocityMaterial } from './materials/TAAVelocityMaterial'
+import { ObjectVelocityMaterial } from './materials/ObjectVelocityMaterial'
+import { ObjectMotionHistory } from './utils/ObjectMotionHistory'
+import { MeshMaterialCache } from './utils/MeshMaterialCache'
+import { TAABlendMaterial } from './materials/TAABlendMaterial'
+import { AmbientOcclusionNormalMaterial } from './materials/AmbientOcclusionNormalMaterial'
+import { AmbientOcclusionMaterial } from './materials/AmbientOcclusionMaterial'
+import { AmbientOcclusionBlendMaterial } from './materials/AmbientOcclusionBlendMaterial'
+import { AmbientOcclusionReceiver } from './materials/AmbientOcclusionReceiver'
+import { StochasticTransparencyMaterial } from './materials/StochasticTransparencyMaterial'
+import { FogVolume } from './volumes/FogVolume'
+import { WindSway } from './wind/WindSway'
+import { NoiseTextureFactory } from './utils/NoiseTextureFactory'
+import { FogOccupancyMaterial } from './materials/FogOccupancyMaterial'
+import { FogShadowMaterial } from './materials/FogShadowMaterial'
+import { FogShadowReceiver } from './materials/FogShadowReceiver'
+import { DynamicResolution } from './utils/DynamicResolution'
+import { GPUProfiler } from './profiling/GPUProfiler'
+import { RenderGraph, RenderGraphSize, RenderPassNode } from './graph/RenderGraph'
+import { PostProcessInput, PostProcessPass } from './postprocess/PostProcessPass'
+import { VignettePass } from './postprocess/VignettePass'
+import { ColorCorrectionPass } from './postprocess/ColorCorrectionPass'
+import { BloomPass } from './postprocess/BloomPass'
+import { DepthOfFieldFocusMode, DepthOfFieldPass } from './postprocess/DepthOfFieldPass'
+import { MotionBlurPass } from './postprocess/MotionBlurPass'
+import { ToneMappingOperator, ToneMappingPass } from './postprocess/ToneMappingPass'
+import { LUTPass } from './postprocess/LUTPass'
+import { CubeLUT } from './loaders/CubeLUTParser'
+
+// Number of sub-pixel jitter positions cycled by TAA
+const TAA_JITTER_SAMPLES = 8
+// Frames before the ambient occlusion noise pattern repeats
+const AMBIENT_OCCLUSION_NOISE_FRAMES = 64
+// Cells per axis of the fog occupancy grid used for empty-space skipping
+const FOG_OCCUPANCY_GRID_SIZE = 32
+// Steps per reach diameter the camera-relative fog bounds move in
+const FOG_BOUNDS_SNAP_DIVISIONS = 32
+// Additive recurrence step for the fog ray start jitter (low-discrepancy over frames)
+const GOLDEN_RATIO_CONJUGATE = 0.6180339887498949
+// Resolution of the light-space fog transmittance map
+const FOG_SHADOW_MAP_SIZE = 256
+// Picture-in-picture debug inset, fraction of the canvas size and margin in CSS pixels
+const DEBUG_INSET_SCALE = 0.3
+const DEBUG_INSET_MARGIN = 16
+// Light clip space [-1, 1] to [0, 1] uv + depth
+const FOG_SHADOW_BIAS_MATRIX = new THREE.Matrix4().set(
+	0.5, 0, 0, 0.5,
+	0, 0.5, 0, 0.5,
+	0, 0, 0.5, 0.5,
+	0, 0, 0, 1
+)
 
 export class Pipeline {
 	private renderer: THREE.WebGLRenderer
 	private camera: THREE.PerspectiveCamera
 	private sceneBuilder: Scene | null = null
 
-	// Color buffer (full resolution)
-	private colorTarget: THREE.WebGLRenderTarget | null = null
+	// Passes and their render targets (allocated, resized, history-swapped and disposed by the graph)
+	private graph: RenderGraph
+
+	// Temporal anti-aliasing (full resolution)
+	private taaEnabled: boolean = true
+	private taaBlendMaterial: TAABlendMaterial | null = null
+	private taaJitter: THREE.Vector2 = new THREE.Vector2()
+	private taaJitterIndex: number = 0
+	private taaFirstFrame: boolean = true
+
+	// Velocity buffer (full resolution) for TAA and motion blur: camera motion reconstructed from depth,
+	// replaced by per-object motion (previous model and instance matrices) wherever a mesh is drawn
+	private velocityMaterial: TAAVelocityMaterial | null = null
+	private objectVelocityMaterials: MeshMaterialCache<ObjectVelocityMaterial> = new MeshMaterialCache(
+		() => new ObjectVelocityMaterial()
+	)
+	private objectMotionHistory: ObjectMotionHistory = new ObjectMotionHistory()
+
+	// Screen-space ambient occlusion (full resolution, unjittered): depth and normals prepass, GTAO and
+	// temporal accumulation, multiplied into the ambient light of the color buffer (before the fog composition)
+	private ambientOcclusionEnabled: boolean = true
+	private ambientOcclusionNormalMaterials: MeshMaterialCache<AmbientOcclusionNormalMaterial> = new MeshMaterialCache(
+		() => new AmbientOcclusionNormalMaterial()
+	)
+	private ambientOcclusionMaterial: AmbientOcclusionMaterial | null = null
+	private ambientOcclusionBlendMaterial: AmbientOcclusionBlendMaterial | null = null
+	private ambientOcclusionFirstFrame: boolean = true
+	private ambientOcclusionFrameIndex: number = 0
+	// Read by the patched scene materials (chunks/ambientOcclusion.glsl)
+	private ambientOcclusionUniforms: { [uniform: string]: THREE.IUniform } = {
+		tAmbientOcclusion: { value: null },
+		useAmbientOcclusion: { value: false },
+	}
+
+	// Stochastic (order-independent) transparency for the color buffer, resolved by TAA
+	private stochasticTransparencyEnabled: boolean = false
+	private stochasticTransparencyMaterial: StochasticTransparencyMaterial | null = null
 
 	// Depth buffer (downsampled) with stochastic depth for transparent objects
-	private depthTarget: THREE.WebGLRenderTarget | null = null
 	private stochasticDepthMaterial: StochasticDepthMaterial | null = null
 	private stochasticJitterIndex: number = 0
 	private transparentMeshes: THREE.Mesh[] = []
 
 	// Fog buffers (downsampled)
-	private fogCurrentTarget: THREE.WebGLRenderTarget | null = null
-	private fogHistoryTarget: THREE.WebGLRenderTarget | null = null
-	private fogBlendedTarget: THREE.WebGLRenderTarget | null = null
 	private fogMaterial: FogMaterial | null = null
 	private fogBlendMaterial: FogBlendMaterial | null = null
-	private fogQuad: THREE.Mesh | null = null
-	private fogCamera: THREE.OrthographicCamera | null = null
-	private fogBlendQuad: THREE.Mesh | null = null
-	private fogBlendCamera: THREE.OrthographicCamera | null = null
 	private fogFirstFrame: boolean = true
+	private fogInterleaveFactor: number = 1 // 1 = every pixel, 2 = checkerboard, 4 = one pixel per 2x2 block
+	private fogVolumes: FogVolume[] = []
+	private localLights: (THREE.PointLight | THREE.SpotLight)[] = []
+
+	// Baked 3D noise for fog density (generated on demand, see updateFogNoiseTextures)
+	private fogNoiseTexture: THREE.Data3DTexture | null = null
+	private fogCurlNoiseTexture: THREE.Data3DTexture | null = null
+	private fogBakedNoiseEnabled: boolean = true
+
+	// Blue noise ray start jitter, rotated every frame
+	private fogBlueNoiseTexture: THREE.DataTexture | null = null
+	private fogJitterIndex: number = 0
+	private fogFirstFrameRendered: boolean = false
+
+	// Coarse max-density grid for empty-space skipping (rebuilt every frame, the noise animates)
+	private fogOccupancyEnabled: boolean = true
+	private fogOccupancyMaterial: FogOccupancyMaterial | null = null
+	private fogOccupancyBounds: THREE.Box3 = new THREE.Box3()
+
+	// Fog transmittance towards the directional light, shadowing both the fog and the scene geometry
+	private fogShadowEnabled: boolean = true
+	private fogShadowUpdateInterval: number = 1 // frames between rebuilds
+	private fogShadowFrameCounter: number = 0
+	private fogShadowMaterial: FogShadowMaterial | null = null
+	private fogShadowCamera: THREE.OrthographicCamera = new THREE.OrthographicCamera()
+	private fogShadowMatrix: THREE.Matrix4 = new THREE.Matrix4()
+	private fogShadowBounds: THREE.Box3 = new THREE.Box3()
+	private sceneBounds: THREE.Box3 = new THREE.Box3() // Meshes of the scene, see updateSceneBoundsCache()
+
+	// Fog velocity buffer (downsampled) for history reprojection
+	private fogVelocityMaterial: TAAVelocityMaterial | null = null
 
 	// Composition (full resolution)
+	private fogCompositeMode: FogCompositeMode = 'additive'
 	private composeMaterial: ComposeMaterial | null = null
-	private composeQuad: THREE.Mesh | null = null
-	private composeCamera: THREE.OrthographicCamera | null = null
 
-	// Debug depth display
-	private depthPassMaterial: DepthPassMaterial | null = null
-	// @ts-ignore - Reserved for future debug depth rendering
-	private _depthPassQuad: THREE.Mesh | null = null
-
-	// Shared fullscreen triangle geometry
-	private fullscreenTriangle: THREE.BufferGeometry
+	// Post-process passes after the composition (full resolution), run in order
+	private postProcessPasses: PostProcessPass[] = []
+	// Graph passes of the registered post-process passes, rebuilt whenever the list changes
+	private postProcessNodeNames: string[] = []
+	// Ping-pong target holding the result of the post-process passes run so far this frame
+	private postProcessInput: 'composite' | 'postProcess' = 'composite'
+	private depthOfFieldPass: DepthOfFieldPass = new DepthOfFieldPass()
+	private motionBlurPass: MotionBlurPass = new MotionBlurPass()
+	private bloomPass: BloomPass = new BloomPass()
+	private colorCorrectionPass: ColorCorrectionPass = new ColorCorrectionPass()
+	private toneMappingPass: ToneMappingPass = new ToneMappingPass()
+	private lutPass: LUTPass = new LUTPass()
+	private vignettePass: VignettePass = new VignettePass()
+
+	// Debug display of an intermediate buffer, over or next to the final image
+	private debugViewMaterial: DebugViewMaterial | null = null
+	private debugView: DebugView = 'final'
+	private debugViewLayout: DebugViewLayout = 'fullscreen'
+
+	// Dynamic resolution: targets keep their full size and passes draw into scaled sub-viewports,
+	// so scale changes never reallocate targets or drop history. UV scales map screen UV to the drawn part.
+	private dynamicResolution: DynamicResolution = new DynamicResolution()
+	private lastRenderScaleSample: number = -1 // Profiler frame last fed to the dynamic resolution
+	private fogUvScale: THREE.Vector2 = new THREE.Vector2(1, 1)
+	private fogPreviousUvScale: THREE.Vector2 = new THREE.Vector2(1, 1)
+	private colorUvScale: THREE.Vector2 = new THREE.Vector2(1, 1)
+	private colorPreviousUvScale: THREE.Vector2 = new THREE.Vector2(1, 1)
+
+	// Per-pass timings (disabled until the profiler overlay is turned on)
+	private profiler: GPUProfiler
 
 	private startTime: number = Date.now()
 
 	constructor(renderer: THREE.WebGLRenderer, camera: THREE.PerspectiveCamera, private downsamplingFactor: number = 2) {
 		this.renderer = renderer
 		this.camera = camera
+		this.profiler = new GPUProfiler(renderer)
+		this.graph = new RenderGraph(renderer, this.profiler)
 
-		// Create shared fullscreen triangle geometry
-		// Triangle vertices extend beyond [-1, 1] to cover entire screen
-		const positions = new Float32Array([
-			-1, -1, 0,  // bottom-left
-			3, -1, 0,   // extends far right
-			-1, 3, 0    // extends far up
-		])
-		const uvs = new Float32Array([
-			0, 0,  // bottom-left
-			2, 0,  // right
-			0, 2   // top
-		])
-		this.fullscreenTriangle = new THREE.BufferGeometry()
-		this.fullscreenTriangle.setAttribute('position', new THREE.BufferAttribute(positions, 3))
-		this.fullscreenTriangle.setAttribute('uv', new THREE.BufferAttribute(uvs, 2))
-
-		// Initialize buffers
+		// Declare render targets and create pass materials
 		this.initColorBuffer()
+		this.initAmbientOcclusion()
+		this.initTAA()
 		this.initDepthBuffer()
 		this.initFog()
 		this.initComposition()
-		this.initDebugDepth()
+		this.initDebugView()
+
+		// Declare passes in execution order and allocate their targets
+		this.initGraph()
+
+		this.setFogCompositeMode(this.fogCompositeMode)
 	}
 
 	public setScene(sceneBuilder: Scene): void {
 		this.sceneBuilder = sceneBuilder
 		this.updateTransparentMeshesCache()
+		this.updateLocalLightsCache()
+		this.updateSceneBoundsCache()
+		this.updateFogShadowReceivers()
+		this.updateAmbientOcclusionReceivers()
+
+		// Register the scene's fog volumes with the ray-march
+		for (const volume of sceneBuilder.fogVolumes) {
+			this.addFogVolume(volume)
+		}
+	}
+
+	public addFogVolume(volume: FogVolume): void {
+		if (this.fogVolumes.includes(volume)) return
+
+		if (this.fogVolumes.length >= MAX_FOG_VOLUMES) {
+			console.warn(`Fog volume limit (${MAX_FOG_VOLUMES}) reached, volume ignored`)
+			return
+		}
+
+		this.fogVolumes.push(volume)
+	}
+
+	public removeFogVolume(volume: FogVolume): void {
+		const index = this.fogVolumes.indexOf(volume)
+		if (index !== -1) {
+			this.fogVolumes.splice(index, 1)
+		}
+	}
+
+	public getFogVolumes(): readonly FogVolume[] {
+		return this.fogVolumes
 	}
 
 	public render(): void {
 		if (!this.sceneBuilder) return
 
-		// 1. Render color buffer (full resolution) with default materials
-		this.renderColorBuffer()
+		// Each pass is timed separately when the profiler is enabled, dynamic resolution needs the timings too
+		this.profiler.beginFrame(this.dynamicResolution.enabled)
 
-		// 2. Render depth buffer (downsampled) with stochastic depth for transparent objects
-		this.renderDepthBuffer()
+		// Pick this frame's render scales from the measured frame work time
+		this.updateRenderScale()
 
-		// 3. Render fog (downsampled) using depth buffer
-		this.renderFog()
+		// Advance the fog medium (sampled by the fog shadow, occupancy and fog passes)
+		this.updateFogMedium()
 
-		// 4. Blend fog buffer with history
-		this.blendFog()
+		// Run the passes declared in initGraph(), history targets are swapped for the next frame at the end
+		this.graph.execute()
 
-		// 5. Compose color buffer with upsampled fog buffer (full resolution)
-		this.compose()
+		// This frame's object transforms become the previous ones for the next velocity pass
+		this.objectMotionHistory.commit(this.sceneBuilder.scene)
+
+		this.profiler.endFrame()
+	}
+
+	private updateRenderScale(): void {
+		// Summed pass times of the latest profiled frame: GPU time with timer queries, CPU time issuing
+		// the passes otherwise. Each frame is only fed once, GPU results arrive a few frames late
+		const sample = this.profiler.getLatestSample()
+		let workTime: number | null = null
+		if (sample && sample.frame !== this.lastRenderScaleSample) {
+			this.lastRenderScaleSample = sample.frame
+			workTime = Object.values(sample.passes).reduce((sum, duration) => sum + duration, 0)
+		}
+		this.dynamicResolution.update(workTime)
+
+		// History targets were drawn with last frame's scales
+		this.fogPreviousUvScale.copy(this.fogUvScale)
+		this.colorPreviousUvScale.copy(this.colorUvScale)
+
+		// Fog chain (downsampled depth, fog, fog velocity and blend) and color buffer scale independently
+		this.graph.setViewportScale('fog', this.dynamicResolution.getFogScale(), this.fogUvScale)
+		this.graph.setViewportScale('color', this.dynamicResolution.getColorScale(), this.colorUvScale)
 	}
 
 	private renderColorBuffer(): void {
+		// This frame's accumulated ambient occlusion, drawn in the same sub-viewport as the color buffer
+		this.ambientOcclusionUniforms.useAmbientOcclusion.value = this.ambientOcclusionEnabled
+		this.ambientOcclusionUniforms.tAmbientOcclusion.value = this.ambientOcclusionEnabled
+			? this.graph.getTarget('ambientOcclusion').texture
+			: null
+
+		if (this.taaEnabled) {
+			this.applyJitter()
+		}
+
+		// Dither transparent meshes into opaque coverage instead of relying on three.js sorting
+		const restoreMaterials = this.stochasticTransparencyEnabled
+			? this.overrideTransparentMaterials((material) => this.createStochasticTransparencyMaterial(material))
+			: null
+
 		// Render scene to color buffer (full resolution)
-		this.renderer.setRenderTarget(this.colorTarget!)
+		this.renderer.setRenderTarget(this.graph.getTarget('color'))
 		this.renderer.render(this.sceneBuilder!.scene, this.camera)
+
+		restoreMaterials?.()
+
+		// Velocity reconstruction needs the (jittered) matrices the color buffer was rendered with, every frame
+		// so the previous camera stays current while the velocity pass is off
+		this.velocityMaterial!.updateCamera(this.camera, this.taaEnabled ? this.taaJitter : undefined)
+
+		if (this.taaEnabled) {
+			// Restore the unjittered projection for the downsampled passes
+			this.camera.updateProjectionMatrix()
+		}
 	}
 
-	private renderDepthBuffer(): void {
-		const downsampledWidth = Math.floor(window.innerWidth / this.downsamplingFactor)
-		const downsampledHeight = Math.floor(window.innerHeight / this.downsamplingFactor)
+	private applyJitter(): void {
+		// Halton(2, 3) sub-pixel offset in [-0.5, 0.5) pixels of the drawn viewport, stored in UV units
+		const sample = this.taaJitterIndex + 1
+		const viewport = this.graph.getTarget('color').viewport
+		this.taaJitter.set(
+			(Pipeline.halton(sample, 2) - 0.5) / viewport.z,
+			(Pipeline.halton(sample, 3) - 0.5) / viewport.w
+		)
+		this.taaJitterIndex = (this.taaJitterIndex + 1) % TAA_JITTER_SAMPLES
+
+		// Shift the projection by the jitter in NDC (UV offset * 2)
+		const elements = this.camera.projectionMatrix.elements
+		elements[8] -= this.taaJitter.x * 2.0
+		elements[9] -= this.taaJitter.y * 2.0
+		this.camera.projectionMatrixInverse.copy(this.camera.projectionMatrix).invert()
+	}
 
+	private static halton(index: number, base: number): number {
+		let result = 0
+		let fraction = 1 / base
+		while (index > 0) {
+			result += (index % base) * fraction
+			index = Math.floor(index / base)
+			fraction /= base
+		}
+		return result
+	}
+
+	private renderAmbientOcclusionPrepass(): void {
+		const scene = this.sceneBuilder!.scene
+
+		// Depth-writing meshes only (not the stochastically dithered ones), other drawables and the background hidden
+		const restoreScene = this.overrideSceneForAmbientOcclusion(scene)
+		this.renderer.setRenderTarget(this.graph.getTarget('ambientOcclusionPrepass'))
+		this.renderer.setClearColor(0x000000, 0.0)
+		this.renderer.clear()
+		this.renderer.render(scene, this.camera)
+		restoreScene()
+	}
+
+	private overrideSceneForAmbientOcclusion(scene: THREE.Scene): () => void {
+		const originalMaterials = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>()
+		const hiddenObjects: THREE.Object3D[] = []
+
+		scene.traverseVisible((object) => {
+			if (object instanceof THREE.Mesh && Pipeline.writesDepth(object) && !this.isDrawnStochastically(object)) {
+				const objectMaterial = this.ambientOcclusionNormalMaterials.get(object)
+				objectMaterial.updateFromMesh(object)
+				WindSway.apply(objectMaterial, object)
+				originalMaterials.set(object, object.material)
+				object.material = objectMaterial
+			} else if (
+				object instanceof THREE.Mesh ||
+				object instanceof THREE.Line ||
+				object instanceof THREE.Points ||
+				object instanceof THREE.Sprite
+			) {
+				hiddenObjects.push(object)
+			}
+		})
+		// Hidden after the traversal, which would otherwise skip their children
+		for (const object of hiddenObjects) {
+			object.visible = false
+		}
+		const background = scene.background
+		scene.background = null
+
+		return () => {
+			scene.background = background
+			for (const object of hiddenObjects) {
+				object.visible = true
+			}
+			originalMaterials.forEach((material, mesh) => {
+				mesh.material = material
+			})
+		}
+	}
+
+	private static writesDepth(mesh: THREE.Mesh): boolean {
+		const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+		return material.depthWrite
+	}
+
+	/**
+	 * Dithered in the color buffer (see overrideTransparentMaterials): the partial coverage would hide the
+	 * occlusion of the surfaces behind it, so these meshes neither occlude nor receive ambient occlusion
+	 */
+	private isDrawnStochastically(mesh: THREE.Mesh): boolean {
+		const material = mesh.material
+		return this.stochasticTransparencyEnabled && material instanceof THREE.MeshPhysicalMaterial && material.transparent
+	}
+
+	private renderAmbientOcclusion(): void {
+		if (!this.ambientOcclusionMaterial || !this.ambientOcclusionBlendMaterial) return
+
+		const prepassTarget = this.graph.getTarget('ambientOcclusionPrepass')
+
+		// Horizon search, its noise pattern rotates every frame
+		this.ambientOcclusionMaterial.uniforms['tDepth'].value = prepassTarget.depthTexture
+		this.ambientOcclusionMaterial.uniforms['tNormal'].value = prepassTarget.texture
+		this.ambientOcclusionMaterial.uniforms['uvScale'].value.copy(this.colorUvScale)
+		this.ambientOcclusionMaterial.uniforms['frameIndex'].value = this.ambientOcclusionFrameIndex
+		this.ambientOcclusionMaterial.updateCamera(this.camera)
+		this.graph.renderFullscreen(this.ambientOcclusionMaterial, this.graph.getTarget('ambientOcclusionRaw'))
+		this.ambientOcclusionFrameIndex = (this.ambientOcclusionFrameIndex + 1) % AMBIENT_OCCLUSION_NOISE_FRAMES
+
+		// Accumulate with last frame's result, reprojected through the camera motion
+		this.ambientOcclusionBlendMaterial.uniforms['tAmbientOcclusion'].value =
+			this.graph.getTarget('ambientOcclusionRaw').texture
+		this.ambientOcclusionBlendMaterial.uniforms['tDepth'].value = prepassTarget.depthTexture
+		this.ambientOcclusionBlendMaterial.uniforms['tHistory'].value =
+			this.graph.getHistoryTarget('ambientOcclusion').texture
+		this.ambientOcclusionBlendMaterial.uniforms['uvScale'].value.copy(this.colorUvScale)
+		this.ambientOcclusionBlendMaterial.uniforms['historyUvScale'].value.copy(this.colorPreviousUvScale)
+		this.ambientOcclusionBlendMaterial.uniforms['hasHistory'].value = !this.ambientOcclusionFirstFrame
+		this.ambientOcclusionBlendMaterial.updateCamera(this.camera)
+		this.graph.renderFullscreen(this.ambientOcclusionBlendMaterial, this.graph.getTarget('ambientOcclusion'))
+		this.ambientOcclusionFirstFrame = false
+	}
+
+	private updateAmbientOcclusionReceivers(): void {
+		if (!this.sceneBuilder) return
+
+		// Lit meshes drawn in the prepass take the occlusion on their ambient light (patched once per material)
+		this.sceneBuilder.scene.traverse((object) => {
+			if (object instanceof THREE.Mesh && Pipeline.writesDepth(object)) {
+				const materials = Array.isArray(object.material) ? object.material : [object.material]
+				for (const material of materials) {
+					if (material instanceof THREE.MeshStandardMaterial) {
+						AmbientOcclusionReceiver.patch(material, this.ambientOcclusionUniforms)
+					}
+				}
+			}
+		})
+	}
+
+	private renderVelocity(): void {
+		if (!this.velocityMaterial) return
+
+		const scene = this.sceneBuilder!.scene
+		const colorTarget = this.graph.getTarget('color')
+		const objectVelocityTarget = this.graph.getTarget('objectVelocity')
+
+		// Meshes drawn with their previous transforms (unjittered), other drawables and the background hidden
+		const restoreScene = this.overrideSceneForVelocity(scene, this.velocityMaterial)
+		this.renderer.setRenderTarget(objectVelocityTarget)
+		this.renderer.setClearColor(0x000000, 0.0)
+		this.renderer.clear()
+		this.renderer.render(scene, this.camera)
+		restoreScene()
+
+		// Reconstruct camera motion from the full resolution depth where no mesh was drawn
+		this.velocityMaterial.uniforms['tDepth'].value = colorTarget.depthTexture
+		this.velocityMaterial.uniforms['depthUvScale'].value.copy(this.colorUvScale)
+		this.velocityMaterial.uniforms['tObjectVelocity'].value = objectVelocityTarget.texture
+		this.velocityMaterial.uniforms['useObjectVelocity'].value = true
+		this.graph.renderFullscreen(this.velocityMaterial, this.graph.getTarget('velocity'))
+	}
+
+	private overrideSceneForVelocity(scene: THREE.Scene, cameraVelocity: TAAVelocityMaterial): () => void {
+		const originalMaterials = new Map<THREE.Mesh, THREE.Material | THREE.Material[]>()
+		const hiddenObjects: THREE.Object3D[] = []
+
+		scene.traverseVisible((object) => {
+			if (object instanceof THREE.Mesh) {
+				if (object instanceof THREE.InstancedMesh) {
+					this.objectMotionHistory.trackInstances(object)
+				}
+				const objectMaterial = this.objectVelocityMaterials.get(object)
+				objectMaterial.updateCameraHistory(cameraVelocity)
+				objectMaterial.updateFromMesh(object, this.objectMotionHistory.getPreviousMatrix(object))
+				WindSway.apply(objectMaterial, object)
+				originalMaterials.set(object, object.material)
+				object.material = objectMaterial
+			} else if (object instanceof THREE.Line || object instanceof THREE.Points || object instanceof THREE.Sprite) {
+				hiddenObjects.push(object)
+			}
+		})
+		// Hidden after the traversal, which would otherwise skip their children
+		for (const object of hiddenObjects) {
+			object.visible = false
+		}
+		const background = scene.background
+		scene.background = null
+
+		return () => {
+			scene.background = background
+			for (const object of hiddenObjects) {
+				object.visible = true
+			}
+			originalMaterials.forEach((material, mesh) => {
+				mesh.material = material
+			})
+		}
+	}
+
+	private resolveTAA(): void {
+		if (!this.taaBlendMaterial) return
+
+		const colorTarget = this.graph.getTarget('color')
+		const velocityTarget = this.graph.getTarget('velocity')
+
+		// Update blend material uniforms
+		this.taaBlendMaterial.uniforms['tCurrent'].value = colorTarget.texture
+		this.taaBlendMaterial.uniforms['tHistory'].value = this.graph.getHistoryTarget('taa').texture
+		this.taaBlendMaterial.uniforms['tVelocity'].value = velocityTarget.texture
+		this.taaBlendMaterial.uniforms['tHistoryDepth'].value = this.graph.getHistoryTarget('color').depthTexture
+		this.taaBlendMaterial.uniforms['currentUvScale'].value.copy(this.colorUvScale)
+		this.taaBlendMaterial.uniforms['historyDepthUvScale'].value.copy(this.colorPreviousUvScale)
+		this.taaBlendMaterial.updateCamera(this.camera)
+
+		// On first frame there is no valid history, so let the current frame through unblended
+		const maxHistoryWeight = this.taaBlendMaterial.uniforms['maxHistoryWeight'].value
+		if (this.taaFirstFrame) {
+			this.taaFirstFrame = false
+			this.taaBlendMaterial.uniforms['maxHistoryWeight'].value = 0.0
+		}
+
+		// Blend current and reprojected history (the graph swaps the TAA history after the frame)
+		this.graph.renderFullscreen(this.taaBlendMaterial, this.graph.getTarget('taa'))
+		this.taaBlendMaterial.uniforms['maxHistoryWeight'].value = maxHistoryWeight
+	}
+
+	private renderDepthBuffer(): void {
 		// Initialize stochastic depth material if needed
 		if (!this.stochasticDepthMaterial) {
+			const { downsampledWidth, downsampledHeight } = this.graph.getSize()
 			this.stochasticDepthMaterial = new StochasticDepthMaterial(downsampledWidth, downsampledHeight)
 		}
 
 		// Update stochastic depth material jitter
 		this.updateStochasticDepth()
 
-		// Store original materials and replace transparent materials with stochastic depth
+		// Replace transparent materials with stochastic depth
+		const restoreMaterials = this.overrideTransparentMaterials((material) => {
+			// Create a new stochastic depth material instance for each object with its own opacity map
+			const objectStochasticMaterial = this.stochasticDepthMaterial!.clone()
+			objectStochasticMaterial.updateOpacity(material.opacity)
+			objectStochasticMaterial.updateOpacityMap(material.map || null)
+			objectStochasticMaterial.updateJitterIndex(this.stochasticJitterIndex)
+			return objectStochasticMaterial
+		})
+
+		// Render to downsampled depth buffer
+		this.renderer.setRenderTarget(this.graph.getTarget('depth'))
+		this.renderer.render(this.sceneBuilder!.scene, this.camera)
+
+		restoreMaterials()
+	}
+
+	private createStochasticTransparencyMaterial(material: THREE.MeshPhysicalMaterial): THREE.ShaderMaterial {
+		if (!this.stochasticTransparencyMaterial) {
+			const { width, height } = this.graph.getSize()
+			this.stochasticTransparencyMaterial = new StochasticTransparencyMaterial(width, height)
+		}
+
+		// Create a new stochastic transparency material instance for each object with its own opacity map
+		const objectStochasticMaterial = this.stochasticTransparencyMaterial.clone()
+		objectStochasticMaterial.updateFromMaterial(material)
+		objectStochasticMaterial.updateJitterIndex(this.stochasticJitterIndex)
+		if (this.sceneBuilder?.directionalLight) {
+			objectStochasticMaterial.updateLight(this.sceneBuilder.directionalLight)
+		}
+		if (this.fogMaterial) {
+			objectStochasticMaterial.updateFogShadow(this.fogMaterial.getFogShadowUniforms())
+		}
+		return objectStochasticMaterial
+	}
+
+	private overrideTransparentMaterials(
+		createMaterial: (material: THREE.MeshPhysicalMaterial) => THREE.ShaderMaterial
+	): () => void {
+		// Store original materials and replace transparent materials
 		const originalMaterials = new Map<THREE.Mesh, THREE.Material>()
 		const clonedMaterials: THREE.ShaderMaterial[] = []
 
@@ -128,93 +591,395 @@ export class Pipeline {
 				// Store original material
 				originalMaterials.set(mesh, material)
 
-				// Create a new stochastic depth material instance for each object with its own opacity map
-				const objectStochasticMaterial = this.stochasticDepthMaterial!.clone()
-				objectStochasticMaterial.updateOpacity(material.opacity)
-				objectStochasticMaterial.updateOpacityMap(material.map || null)
-				objectStochasticMaterial.updateJitterIndex(this.stochasticJitterIndex)
-				clonedMaterials.push(objectStochasticMaterial)
-
-				// Replace with stochastic depth material
-				mesh.material = objectStochasticMaterial
+				const overrideMaterial = createMaterial(material)
+				WindSway.apply(overrideMaterial, mesh)
+				clonedMaterials.push(overrideMaterial)
+				mesh.material = overrideMaterial
 			}
 		}
 
-		// Render to downsampled depth buffer
-		this.renderer.setRenderTarget(this.depthTarget!)
-		this.renderer.render(this.sceneBuilder!.scene, this.camera)
-
 		// Restore original materials and dispose cloned materials
-		originalMaterials.forEach((material, mesh) => {
-			mesh.material = material
-		})
-		clonedMaterials.forEach((material) => {
-			material.dispose()
-		})
+		return () => {
+			originalMaterials.forEach((material, mesh) => {
+				mesh.material = material
+			})
+			clonedMaterials.forEach((material) => {
+				material.dispose()
+			})
+		}
 	}
 
-	private renderFog(): void {
-		if (!this.fogMaterial || !this.depthTarget || !this.sceneBuilder) return
-
-		// Update fog material with depth texture
-		this.fogMaterial.uniforms['tDepth'].value = this.depthTarget.depthTexture || this.depthTarget.texture
+	private updateFogMedium(): void {
+		if (!this.fogMaterial || !this.sceneBuilder) return
 
-		// Update camera
-		this.fogMaterial.updateCamera(this.camera)
+		// Update fog volumes (transforms may change every frame)
+		this.fogMaterial.updateVolumes(this.fogVolumes)
 
 		// Update time
 		const currentTime = (Date.now() - this.startTime) / 1000.0
 		this.fogMaterial.updateTime(currentTime)
 
+		// Advect fog noise with the scene wind
+		this.fogMaterial.updateWind(this.sceneBuilder.wind)
+
 		// Update light data if directional light exists
 		if (this.sceneBuilder.directionalLight) {
 			this.fogMaterial.updateLight(this.sceneBuilder.directionalLight)
 		}
+	}
+
+	private renderFogShadow(): void {
+		if (!this.fogMaterial || !this.fogShadowMaterial) return
+
+		const light = this.sceneBuilder?.directionalLight
+		const bounds = this.fogShadowEnabled && light ? this.computeFogShadowBounds(this.fogShadowBounds) : null
+		if (!light || !bounds || bounds.isEmpty()) {
+			this.fogMaterial.updateFogShadow(null, null)
+			return
+		}
+
+		// Rebuild at the configured rate, the previous map keeps being sampled in between
+		const frame = this.fogShadowFrameCounter
+		this.fogShadowFrameCounter = (frame + 1) % this.fogShadowUpdateInterval
+		if (frame !== 0 && this.fogMaterial.uniforms.useFogShadow.value) return
+
+		// Orthographic light camera enclosing the fog bounds, looking along the light direction
+		const sphere = bounds.getBoundingSphere(new THREE.Sphere())
+		const toLight = light
+			.getWorldPosition(new THREE.Vector3())
+			.sub(light.target.getWorldPosition(new THREE.Vector3()))
+			.normalize()
+		const camera = this.fogShadowCamera
+		camera.position.copy(toLight)
+		camera.lookAt(0, 0, 0)
+
+		// Centre snapped to whole texels across the light direction, so moving bounds do not shimmer
+		const texelSize = (sphere.radius * 2) / FOG_SHADOW_MAP_SIZE
+		const lightRotation = camera.quaternion.clone()
+		const center = sphere.center.clone().applyQuaternion(lightRotation.clone().invert())
+		center.x = Math.round(center.x / texelSize) * texelSize
+		center.y = Math.round(center.y / texelSize) * texelSize
+		center.applyQuaternion(lightRotation)
+		camera.position.copy(center).addScaledVector(toLight, sphere.radius)
+		camera.lookAt(center)
+		camera.left = -sphere.radius
+		camera.right = sphere.radius
+		camera.top = sphere.radius
+		camera.bottom = -sphere.radius
+		camera.near = 0
+		camera.far = sphere.radius * 2
+		camera.updateProjectionMatrix()
+		camera.updateMatrixWorld()
+
+		this.fogShadowMatrix
+			.copy(FOG_SHADOW_BIAS_MATRIX)
+			.multiply(camera.projectionMatrix)
+			.multiply(camera.matrixWorldInverse)
+		this.fogShadowMaterial.updateShadowMatrix(this.fogShadowMatrix)
+
+		const shadowTarget = this.graph.getTarget('fogShadowMap')
+		this.graph.renderFullscreen(this.fogShadowMaterial, shadowTarget)
+
+		this.fogMaterial.updateFogShadow(shadowTarget.texture, this.fogShadowMatrix)
+	}
+
+	private renderFog(): void {
+		if (!this.fogMaterial || !this.sceneBuilder) return
+
+		// Update fog material with depth texture
+		const depthTarget = this.graph.getTarget('depth')
+		this.fogMaterial.uniforms['tDepth'].value = depthTarget.depthTexture || depthTarget.texture
+		this.fogMaterial.uniforms['depthUvScale'].value.copy(this.fogUvScale)
+
+		// Update camera
+		this.fogMaterial.updateCamera(this.camera)
+
+		// Rotate the blue noise ray start jitter
+		this.fogMaterial.updateJitterOffset((this.fogJitterIndex * GOLDEN_RATIO_CONJUGATE) % 1)
+		this.fogJitterIndex = (this.fogJitterIndex + 1) % 1024
+
+		// March one interleave slot per frame, cycled with the stochastic jitter index (period 16)
+		this.fogMaterial.updateInterleave(this.fogInterleaveFactor, this.getFogInterleavePhase())
+
+		// Update point / spot lights scattering in the fog
+		this.fogMaterial.updateLocalLights(this.getFogLocalLights())
 
 		// Clear fog target with transparent black (alpha = 0) before rendering
-		this.renderer.setRenderTarget(this.fogCurrentTarget!)
+		const fogTarget = this.graph.getTarget('fog')
+		this.renderer.setRenderTarget(fogTarget)
 		this.renderer.setClearColor(0x000000, 0.0)
 		this.renderer.clear()
-		this.renderer.render(this.fogQuad!, this.fogCamera!)
+		this.graph.renderFullscreen(this.fogMaterial, fogTarget)
+
+		this.updateFogNoiseTextures()
 	}
 
-	private blendFog(): void {
-		if (!this.fogBlendMaterial) return
-
-		// On first frame, use current as history (no blending needed)
-		if (this.fogFirstFrame) {
-			this.fogFirstFrame = false
-			// Swap current and history so history has the current fog
-			const temp = this.fogHistoryTarget
-			this.fogHistoryTarget = this.fogCurrentTarget
-			this.fogCurrentTarget = temp
+	private updateFogNoiseTextures(): void {
+		// The bakes take up to a second, so none runs before the first frame and at most one per frame after it.
+		// Until then the fog marches procedural noise with an unjittered start (both textures unbound).
+		if (!this.fogFirstFrameRendered) {
+			this.fogFirstFrameRendered = true
+		} else if (!this.fogBlueNoiseTexture) {
+			this.fogBlueNoiseTexture = NoiseTextureFactory.createBlueNoiseTexture(64)
+			this.fogMaterial!.setBlueNoiseTexture(this.fogBlueNoiseTexture)
+		} else if (this.fogBakedNoiseEnabled && !this.fogNoiseTexture) {
+			// Only baked once enabled, the curl noise is sampled with it
+			this.fogNoiseTexture = NoiseTextureFactory.createPerlinWorleyTexture(64)
+			this.fogCurlNoiseTexture = NoiseTextureFactory.createCurlNoiseTexture(32)
+			this.fogMaterial!.setNoiseTextures(this.fogNoiseTexture, this.fogCurlNoiseTexture)
+			this.fogMaterial!.setBakedNoiseEnabled(true)
+		}
+	}
+
+	private renderFogOccupancy(): void {
+		if (!this.fogMaterial || !this.fogOccupancyMaterial) return
+
+		const bounds = this.fogOccupancyEnabled ? this.computeFogBounds(this.fogOccupancyBounds) : null
+		if (!bounds || bounds.isEmpty()) {
+			this.fogMaterial.updateOccupancy(null, null)
 			return
 		}
 
-		// Update blend material uniforms
-		this.fogBlendMaterial.uniforms['tCurrent'].value = this.fogCurrentTarget!.texture
-		this.fogBlendMaterial.uniforms['tHistory'].value = this.fogHistoryTarget!.texture
+		// One fullscreen pass per Z slice of the 3D target
+		const occupancyTarget = this.graph.getTarget('fogOccupancy')
+		this.fogOccupancyMaterial.updateBounds(bounds)
+		for (let slice = 0; slice < FOG_OCCUPANCY_GRID_SIZE; slice++) {
+			this.fogOccupancyMaterial.updateSlice(slice)
+			this.graph.renderFullscreen(this.fogOccupancyMaterial, occupancyTarget, slice)
+		}
 
-		// Blend current and history, write to blended target
-		this.renderer.setRenderTarget(this.fogBlendedTarget!)
-		this.renderer.render(this.fogBlendQuad!, this.fogBlendCamera!)
+		this.fogMaterial.updateOccupancy(occupancyTarget.texture, bounds)
+	}
 
-		// Swap history and blended for next frame (ping-pong)
-		const temp = this.fogHistoryTarget
-		this.fogHistoryTarget = this.fogBlendedTarget
-		this.fogBlendedTarget = temp
+	private computeFogShadowBounds(target: THREE.Box3): THREE.Box3 {
+		// Independent of the camera so the map's extent and texel density stay put: the bounded volumes,
+		// and the scene's meshes where a height layer (unbounded horizontally) can shadow them
+		const bounds = target.makeEmpty()
+		const unitBox = new THREE.Box3(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1))
+		for (const volume of this.fogVolumes.slice(0, MAX_FOG_VOLUMES)) {
+			if (volume.shape === 'heightLayer') {
+				bounds.union(this.sceneBounds)
+			} else {
+				bounds.union(unitBox.clone().applyMatrix4(volume.matrixWorld))
+			}
+		}
+		return bounds
+	}
+
+	private computeFogBounds(target: THREE.Box3): THREE.Box3 {
+		// Only the part of the fog the march can reach (within maxFogDistance of the camera) matters.
+		// Centred on the camera snapped to steps of the reach (one step larger to still cover it), so the
+		// bounds only change once the camera has moved a step
+		const maxDistance = this.fogMaterial!.uniforms.maxFogDistance.value
+		const step = (maxDistance * 2) / FOG_BOUNDS_SNAP_DIVISIONS
+		const center = this.camera.position.clone().divideScalar(step).round().multiplyScalar(step)
+		const reachSize = maxDistance * 2 + step
+		const reach = new THREE.Box3().setFromCenterAndSize(center, new THREE.Vector3(reachSize, reachSize, reachSize))
+
+		const bounds = target.makeEmpty()
+		const unitBox = new THREE.Box3(new THREE.Vector3(-1, -1, -1), new THREE.Vector3(1, 1, 1))
+		for (const volume of this.fogVolumes.slice(0, MAX_FOG_VOLUMES)) {
+			if (volume.shape === 'heightLayer') {
+				// Unbounded horizontally
+				bounds.union(reach)
+			} else {
+				bounds.union(unitBox.clone().applyMatrix4(volume.matrixWorld))
+			}
+		}
+
+		return bounds.intersect(reach)
+	}
+
+	private blendFog(): void {
+		if (!this.fogBlendMaterial || !this.fogVelocityMaterial) return
+
+		// Track camera matrices every frame so the next frame can reproject into this one
+		this.fogVelocityMaterial.updateCamera(this.camera)
+
+		// Reconstruct per-pixel motion from the downsampled depth and camera matrices
+		const velocityTarget = this.graph.getTarget('fogVelocity')
+		this.fogVelocityMaterial.uniforms['tDepth'].value = this.graph.getTarget('depth').depthTexture
+		this.fogVelocityMaterial.uniforms['depthUvScale'].value.copy(this.fogUvScale)
+		this.graph.renderFullscreen(this.fogVelocityMaterial, velocityTarget)
+
+		// Update blend material uniforms
+		this.fogBlendMaterial.uniforms['tCurrent'].value = this.graph.getTarget('fog').texture
+		this.fogBlendMaterial.uniforms['tHistory'].value = this.graph.getHistoryTarget('fogAccumulation').texture
+		this.fogBlendMaterial.uniforms['tCurrentTransmittance'].value = this.graph.getTarget('fog').textures[1]
+		this.fogBlendMaterial.uniforms['tHistoryTransmittance'].value =
+			this.graph.getHistoryTarget('fogAccumulation').textures[1]
+		this.fogBlendMaterial.uniforms['tVelocity'].value = velocityTarget.texture
+		this.fogBlendMaterial.uniforms['tHistoryDepth'].value = this.graph.getHistoryTarget('depth').depthTexture
+		this.fogBlendMaterial.uniforms['currentUvScale'].value.copy(this.fogUvScale)
+		this.fogBlendMaterial.uniforms['historyUvScale'].value.copy(this.fogPreviousUvScale)
+		this.fogBlendMaterial.updateCamera(this.camera)
+		this.fogBlendMaterial.updateInterleave(this.fogInterleaveFactor, this.getFogInterleavePhase())
+
+		// On first frame there is no valid history, the current fog (or its reconstruction) goes through as is
+		this.fogBlendMaterial.uniforms['hasHistory'].value = !this.fogFirstFrame
+		this.fogFirstFrame = false
+
+		// Blend current and reprojected history (the graph swaps the accumulation history after the frame)
+		this.graph.renderFullscreen(this.fogBlendMaterial, this.graph.getTarget('fogAccumulation'))
 	}
 
 	private compose(): void {
 		if (!this.composeMaterial) return
 
 		// Update compose material uniforms
-		this.composeMaterial.uniforms['tColor'].value = this.colorTarget!.texture
-		this.composeMaterial.uniforms['tFog'].value = this.fogHistoryTarget!.texture // Use history (which is now the blended result)
+		// With TAA the resolved color lives in the TAA target
+		const colorTarget = this.graph.getTarget('color')
+		const resolvedTarget = this.taaEnabled ? this.graph.getTarget('taa') : colorTarget
+		this.composeMaterial.uniforms['tColor'].value = resolvedTarget.texture
+		this.composeMaterial.uniforms['tFog'].value = this.graph.getTarget('fogAccumulation').texture
+		this.composeMaterial.uniforms['tFogTransmittance'].value = this.graph.getTarget('fogAccumulation').textures[1]
+
+		// Full resolution and downsampled depth guide the fog upsampling across silhouettes
+		this.composeMaterial.uniforms['tDepth'].value = colorTarget.depthTexture
+		this.composeMaterial.uniforms['tFogDepth'].value = this.graph.getTarget('depth').depthTexture
+
+		// The TAA history is resolved at full size, the raw color buffer only covers its sub-viewport
+		const colorUvScale: THREE.Vector2 = this.composeMaterial.uniforms['colorUvScale'].value
+		if (this.taaEnabled) {
+			colorUvScale.set(1, 1)
+		} else {
+			colorUvScale.copy(this.colorUvScale)
+		}
+		this.composeMaterial.uniforms['depthUvScale'].value.copy(this.colorUvScale)
+		this.composeMaterial.uniforms['fogUvScale'].value.copy(this.fogUvScale)
+		this.composeMaterial.updateCamera(this.camera)
+
+		// Render to screen (full resolution), or to the first post-process input
+		const target = this.getActivePostProcessPasses().length > 0 ? this.graph.getTarget('composite') : null
+		this.renderToOutput(this.composeMaterial, target)
+		this.postProcessInput = 'composite'
+	}
+
+	private renderPostProcessPass(pass: PostProcessPass): void {
+		const passes = this.getActivePostProcessPasses()
+		const output = this.postProcessInput === 'composite' ? 'postProcess' : 'composite'
+
+		// Ping-pong between the two targets, the last pass draws to the screen
+		this.bindPostProcessInputs(pass)
+		pass.prepare(this.graph, this.graph.getTarget(this.postProcessInput).texture)
+		this.renderToOutput(pass.material, pass === passes[passes.length - 1] ? null : this.graph.getTarget(output))
+		this.postProcessInput = output
+	}
+
+	private bindPostProcessInputs(pass: PostProcessPass): void {
+		const source = this.graph.getTarget(this.postProcessInput)
+		pass.material.updateInputs(source.texture, this.graph.getTarget('color').depthTexture, this.colorUvScale)
+		pass.updateCamera(this.camera)
+	}
+
+	/**
+	 * Declares the registered post-process passes on the graph in list order, between the composition
+	 * and the debug view: each pass's own graph passes, then the pass drawing its material
+	 */
+	private updatePostProcessNodes(): void {
+		for (const name of this.postProcessNodeNames) {
+			this.graph.removePass(name)
+		}
+		this.postProcessNodeNames = []
+
+		this.postProcessPasses.forEach((pass, index) => {
+			// The first pass reads the composition, later ones whichever target the last enabled pass drew
+			const input: PostProcessInput = {
+				reads: index === 0 ? ['composite'] : ['composite', 'postProcess'],
+				bind: () => this.bindPostProcessInputs(pass),
+			}
+			const nodes: RenderPassNode[] = [
+				...pass.getGraphPasses(this.graph, input),
+				{
+					name: pass.name,
+					reads: [...input.reads, 'color', 'velocity', ...Object.keys(pass.getTargets())],
+					writes: index === 0 ? ['postProcess'] : ['composite', 'postProcess'],
+					enabled: () => pass.enabled,
+					execute: () => this.renderPostProcessPass(pass),
+					resize: ({ width, height }) => pass.setSize(width, height),
+				},
+			]
+			for (const node of nodes) {
+				this.graph.addPass(node, 'debugView')
+				this.postProcessNodeNames.push(node.name)
+			}
+		})
+	}
+
+	private renderToOutput(material: THREE.ShaderMaterial, target: THREE.WebGLRenderTarget | null): void {
+		// Intermediate targets keep straight color and alpha, only the final draw blends onto the canvas
+		material.blending = target ? THREE.NoBlending : THREE.NormalBlending
+		this.graph.renderFullscreen(material, target)
+	}
+
+	private renderDebugView(): void {
+		if (!this.debugViewMaterial || !this.fogMaterial) return
+
+		const { texture, uvScale } = this.getDebugViewInput(this.debugView)
+		this.debugViewMaterial.updateView(this.debugView, texture, uvScale)
+		this.debugViewMaterial.updateCamera(this.camera)
+		this.debugViewMaterial.updateDepthRange(this.fogMaterial.uniforms.maxFogDistance.value)
+		// The depth buffer of this frame was dithered with the index before the increment
+		this.debugViewMaterial.updateJitterIndex((this.stochasticJitterIndex + 15) % 16)
+
+		// Drawn over the final image: everywhere, on the left half, or into an inset in the bottom right corner
+		const size = this.renderer.getSize(new THREE.Vector2())
+		const autoClear = this.renderer.autoClear
+		this.renderer.autoClear = false
+		if (this.debugViewLayout === 'split') {
+			this.renderer.setScissor(0, 0, Math.floor(size.x / 2), size.y)
+			this.renderer.setScissorTest(true)
+		} else if (this.debugViewLayout === 'pictureInPicture') {
+			const width = Math.floor(size.x * DEBUG_INSET_SCALE)
+			const height = Math.floor(size.y * DEBUG_INSET_SCALE)
+			this.renderer.setViewport(size.x - width - DEBUG_INSET_MARGIN, DEBUG_INSET_MARGIN, width, height)
+		}
+
+		this.graph.renderFullscreen(this.debugViewMaterial, null)
+
+		this.renderer.setScissorTest(false)
+		this.renderer.setViewport(0, 0, size.x, size.y)
+		this.renderer.autoClear = autoClear
+	}
+
+	private getDebugViewInput(view: DebugView): { texture: THREE.Texture | null; uvScale: THREE.Vector2 } {
+		const fullScale = new THREE.Vector2(1, 1)
+		switch (view) {
+			case 'depth':
+				return { texture: this.graph.getTarget('depth').depthTexture, uvScale: this.fogUvScale }
+			case 'fogCurrent':
+				return { texture: this.graph.getTarget('fog').texture, uvScale: this.fogUvScale }
+			case 'fogHistory':
+				// Accumulated fog the current frame was blended with, drawn at last frame's scale
+				return {
+					texture: this.graph.getHistoryTarget('fogAccumulation').texture,
+					uvScale: this.fogPreviousUvScale,
+				}
+			case 'fogAlpha':
+				return { texture: this.graph.getTarget('fogAccumulation').texture, uvScale: this.fogUvScale }
+			case 'velocity':
+				// Full resolution camera and object velocity when rendered, the fog reprojection velocity otherwise
+				return this.isVelocityEnabled()
+					? { texture: this.graph.getTarget('velocity').texture, uvScale: fullScale }
+					: { texture: this.graph.getTarget('fogVelocity').texture, uvScale: this.fogUvScale }
+			case 'fogShadow':
+				return { texture: this.graph.getTarget('fogShadowMap').texture, uvScale: fullScale }
+			case 'ambientOcclusion':
+				return { texture: this.graph.getTarget('ambientOcclusion').texture, uvScale: this.colorUvScale }
+			case 'ditherMask':
+				// Computed, not sampled, laid out like the depth target's sub-viewport
+				return { texture: null, uvScale: this.fogUvScale }
+			default:
+				return { texture: null, uvScale: fullScale }
+		}
+	}
+
+	private isVelocityEnabled(): boolean {
+		return this.taaEnabled || this.motionBlurPass.enabled
+	}
 
-		// Render to screen (full resolution)
-		this.renderer.setRenderTarget(null)
-		this.renderer.render(this.composeQuad!, this.composeCamera!)
+	private getActivePostProcessPasses(): PostProcessPass[] {
+		return this.postProcessPasses.filter((pass) => pass.enabled)
 	}
 
 	private updateStochasticDepth(): void {
@@ -247,56 +1012,122 @@ export class Pipeline {
 		})
 	}
 
-	public updateTargets(): void {
-		const downsampledWidth = Math.floor(window.innerWidth / this.downsamplingFactor)
-		const downsampledHeight = Math.floor(window.innerHeight / this.downsamplingFactor)
+	private updateSceneBoundsCache(): void {
+		this.sceneBounds.makeEmpty()
+		if (!this.sceneBuilder) return
 
-		// Update color buffer (full resolution)
-		if (this.colorTarget) {
-			this.colorTarget.setSize(window.innerWidth, window.innerHeight)
-		}
+		const scene = this.sceneBuilder.scene
+		scene.updateMatrixWorld()
+		scene.traverse((object) => {
+			if (object instanceof THREE.Mesh) {
+				this.sceneBounds.expandByObject(object)
+			}
+		})
+	}
 
-		// Update depth buffer (downsampled)
-		if (this.depthTarget) {
-			this.depthTarget.setSize(downsampledWidth, downsampledHeight)
-		}
-		if (this.stochasticDepthMaterial) {
-			this.stochasticDepthMaterial.updateResolution(downsampledWidth, downsampledHeight)
-		}
+	private updateLocalLightsCache(): void {
+		this.localLights = []
+		if (!this.sceneBuilder) return
 
-		// Update fog buffers (downsampled)
-		if (this.fogCurrentTarget) {
-			this.fogCurrentTarget.setSize(downsampledWidth, downsampledHeight)
-		}
-		if (this.fogHistoryTarget) {
-			this.fogHistoryTarget.setSize(downsampledWidth, downsampledHeight)
-		}
-		if (this.fogBlendedTarget) {
-			this.fogBlendedTarget.setSize(downsampledWidth, downsampledHeight)
-		}
-		if (this.fogMaterial) {
-			this.fogMaterial.updateResolution(downsampledWidth, downsampledHeight)
-		}
+		// Traverse scene once to find all point and spot lights
+		this.sceneBuilder.scene.traverse((object) => {
+			if (object instanceof THREE.PointLight || object instanceof THREE.SpotLight) {
+				this.localLights.push(object)
+			}
+		})
+	}
 
-		// Update composition resolution
-		if (this.composeMaterial) {
-			this.composeMaterial.updateResolution(window.innerWidth, window.innerHeight)
+	private countLocalLights(): number {
+		let count = 0
+		this.sceneBuilder?.scene.traverse((object) => {
+			if (object instanceof THREE.PointLight || object instanceof THREE.SpotLight) {
+				count++
+			}
+		})
+		return count
+	}
+
+	private updateFogShadowReceivers(): void {
+		if (!this.sceneBuilder || !this.fogMaterial) return
+
+		// Lit shadow receivers also take the fog transmittance towards the light (patched once per material)
+		const uniforms = this.fogMaterial.getFogShadowUniforms()
+		this.sceneBuilder.scene.traverse((object) => {
+			if (object instanceof THREE.Mesh && object.receiveShadow) {
+				const materials = Array.isArray(object.material) ? object.material : [object.material]
+				for (const material of materials) {
+					if (material instanceof THREE.MeshStandardMaterial) {
+						FogShadowReceiver.patch(material, uniforms)
+					}
+				}
+			}
+		})
+	}
+
+	private getFogInterleavePhase(): number {
+		return this.stochasticJitterIndex % this.fogInterleaveFactor
+	}
+
+	private getFogLocalLights(): (THREE.PointLight | THREE.SpotLight)[] {
+		// Lights added or removed at runtime change the count, swapping one light for another needs refreshSceneCaches()
+		if (this.countLocalLights() !== this.localLights.length) {
+			this.updateLocalLightsCache()
 		}
 
-		// Update debug depth resolution
-		if (this.depthPassMaterial) {
-			this.depthPassMaterial.updateResolution(downsampledWidth, downsampledHeight)
+		// Keep the lights with the strongest contribution at the camera when over the cap
+		const lights = this.localLights.filter((light) => light.visible && light.intensity > 0)
+		if (lights.length <= MAX_FOG_LOCAL_LIGHTS) return lights
+
+		const lightPosition = new THREE.Vector3()
+		const contribution = (light: THREE.PointLight | THREE.SpotLight): number => {
+			const distanceSq = light.getWorldPosition(lightPosition).distanceToSquared(this.camera.position)
+			return light.intensity / Math.max(distanceSq, 1e-4)
 		}
+		return lights.sort((a, b) => contribution(b) - contribution(a)).slice(0, MAX_FOG_LOCAL_LIGHTS)
+	}
+
+	public refreshSceneCaches(): void {
+		// Call after adding, removing or moving meshes (light count changes are picked up per frame)
+		this.updateTransparentMeshesCache()
+		this.updateLocalLightsCache()
+		this.updateSceneBoundsCache()
+		this.updateFogShadowReceivers()
+		this.updateAmbientOcclusionReceivers()
+	}
 
-		// Reset fog first frame flag on resize
+	public updateTargets(): void {
+		// Resizes every screen and downsampled target, passes update their material resolutions
+		this.graph.resize(this.getGraphSize())
+
+		// Reset fog and TAA first frame flags on resize
 		this.fogFirstFrame = true
+		this.taaFirstFrame = true
+		this.ambientOcclusionFirstFrame = true
 		this.stochasticJitterIndex = 0
+		this.taaJitterIndex = 0
+	}
+
+	private getGraphSize(): RenderGraphSize {
+		return {
+			width: window.innerWidth,
+			height: window.innerHeight,
+			downsampledWidth: Math.floor(window.innerWidth / this.downsamplingFactor),
+			downsampledHeight: Math.floor(window.innerHeight / this.downsamplingFactor),
+		}
 	}
 
 	public updateProjectionMatrix(): void {
 		// No-op for now, kept for compatibility
 	}
 
+	public getProfiler(): GPUProfiler {
+		return this.profiler
+	}
+
+	public getDynamicResolution(): DynamicResolution {
+		return this.dynamicResolution
+	}
+
 	public getFogMaterial(): FogMaterial | null {
 		return this.fogMaterial
 	}
@@ -305,6 +1136,41 @@ export class Pipeline {
 		return this.fogBlendMaterial
 	}
 
+	public getFogCompositeMode(): FogCompositeMode {
+		return this.fogCompositeMode
+	}
+
+	public setFogCompositeMode(mode: FogCompositeMode): void {
+		this.fogCompositeMode = mode
+		this.composeMaterial?.setFogCompositeMode(mode)
+
+		// The legacy look relies on normal blending premultiplying fog.rgb by fog.a in the fog passes,
+		// transmittance compositing needs the in-scattered light written unmodified
+		const blending = mode === 'additive' ? THREE.NormalBlending : THREE.NoBlending
+		if (this.fogMaterial) {
+			this.fogMaterial.blending = blending
+		}
+		if (this.fogBlendMaterial) {
+			this.fogBlendMaterial.blending = blending
+		}
+
+		// History was accumulated with the other blending
+		this.fogFirstFrame = true
+	}
+
+	public getFogInterleave(): number {
+		return this.fogInterleaveFactor
+	}
+
+	public setFogInterleave(factor: number): void {
+		// Fraction of fog pixels marched per frame is 1 / factor
+		const interleaveFactor = factor === 2 || factor === 4 ? factor : 1
+		if (this.fogInterleaveFactor === interleaveFactor) return
+		this.fogInterleaveFactor = interleaveFactor
+		// History was reconstructed with the other pattern
+		this.fogFirstFrame = true
+	}
+
 	public getFogBlendFactor(): number {
 		return this.fogBlendMaterial?.uniforms['blendFactor']?.value ?? 0.7
 	}
@@ -315,6 +1181,89 @@ export class Pipeline {
 		}
 	}
 
+	public getBakedNoiseEnabled(): boolean {
+		return this.fogBakedNoiseEnabled
+	}
+
+	public setBakedNoiseEnabled(enabled: boolean): void {
+		this.fogBakedNoiseEnabled = enabled
+		this.fogMaterial?.setBakedNoiseEnabled(enabled)
+	}
+
+	public getEmptySpaceSkippingEnabled(): boolean {
+		return this.fogOccupancyEnabled
+	}
+
+	public setEmptySpaceSkippingEnabled(enabled: boolean): void {
+		this.fogOccupancyEnabled = enabled
+	}
+
+	public getVolumetricShadowsEnabled(): boolean {
+		return this.fogShadowEnabled
+	}
+
+	public setVolumetricShadowsEnabled(enabled: boolean): void {
+		this.fogShadowEnabled = enabled
+	}
+
+	public getVolumetricShadowInterval(): number {
+		return this.fogShadowUpdateInterval
+	}
+
+	public setVolumetricShadowInterval(frames: number): void {
+		// Frames between shadow map rebuilds (1 = every frame)
+		this.fogShadowUpdateInterval = Math.max(1, Math.round(frames))
+		this.fogShadowFrameCounter = 0
+	}
+
+	public getTAAEnabled(): boolean {
+		return this.taaEnabled
+	}
+
+	public setTAAEnabled(value: boolean): void {
+		if (this.taaEnabled === value) return
+		this.taaEnabled = value
+		// History and previous camera matrices are stale after toggling
+		this.taaFirstFrame = true
+		this.taaJitterIndex = 0
+		this.warnStochasticTransparencyWithoutTAA()
+	}
+
+	public setAmbientOcclusionEnabled(value: boolean): void {
+		if (this.ambientOcclusionEnabled === value) return
+		this.ambientOcclusionEnabled = value
+		// History is stale after toggling
+		this.ambientOcclusionFirstFrame = true
+	}
+
+	public setAmbientOcclusionRadius(value: number): void {
+		this.ambientOcclusionMaterial?.updateRadius(value)
+	}
+
+	public setAmbientOcclusionIntensity(value: number): void {
+		this.ambientOcclusionMaterial?.updateIntensity(value)
+	}
+
+	public setAmbientOcclusionSamples(value: number): void {
+		this.ambientOcclusionMaterial?.updateSamples(value)
+	}
+
+	public getStochasticTransparencyEnabled(): boolean {
+		return this.stochasticTransparencyEnabled
+	}
+
+	public setStochasticTransparencyEnabled(value: boolean): void {
+		this.stochasticTransparencyEnabled = value
+		this.warnStochasticTransparencyWithoutTAA()
+	}
+
+	private warnStochasticTransparencyWithoutTAA(): void {
+		// The dither only averages out to the target opacity through TAA accumulation
+		if (this.stochasticTransparencyEnabled && !this.taaEnabled) {
+			console.warn('Stochastic transparency is enabled without TAA, transparent surfaces will show the dither pattern')
+		}
+	}
+
 	public getDownsamplingFactor(): number {
 		return this.downsamplingFactor
 	}
@@ -324,10 +1273,63 @@ export class Pipeline {
 		this.updateTargets()
 	}
 
+	public getDebugView(): DebugView {
+		return this.debugView
+	}
+
+	public setDebugView(view: DebugView): void {
+		this.debugView = view
+	}
+
+	public getDebugViewLayout(): DebugViewLayout {
+		return this.debugViewLayout
+	}
+
+	public setDebugViewLayout(layout: DebugViewLayout): void {
+		this.debugViewLayout = layout
+	}
+
 	public getComposeMaterial(): ComposeMaterial | null {
 		return this.composeMaterial
 	}
 
+	/**
+	 * Registers a post-process pass, run after the fog composition in list order
+	 * @param index Position in the list (appended by default)
+	 */
+	public addPostProcessPass(pass: PostProcessPass, index: number = this.postProcessPasses.length): void {
+		if (this.postProcessPasses.includes(pass)) return
+
+		// Sized when the graph compiles again, before the next frame
+		for (const [name, descriptor] of Object.entries(pass.getTargets())) {
+			this.graph.addTarget(name, descriptor)
+		}
+		this.postProcessPasses.splice(index, 0, pass)
+		this.updatePostProcessNodes()
+	}
+
+	/**
+	 * Unregisters a post-process pass and releases its targets, its materials are left to the caller to dispose
+	 */
+	public removePostProcessPass(pass: PostProcessPass): void {
+		const index = this.postProcessPasses.indexOf(pass)
+		if (index === -1) return
+
+		this.postProcessPasses.splice(index, 1)
+		for (const name of Object.keys(pass.getTargets())) {
+			this.graph.removeTarget(name)
+		}
+		this.updatePostProcessNodes()
+	}
+
+	public getPostProcessPasses(): readonly PostProcessPass[] {
+		return this.postProcessPasses
+	}
+
+	public getPostProcessPass(name: string): PostProcessPass | undefined {
+		return this.postProcessPasses.find((pass) => pass.name === name)
+	}
+
 	public getFogBlurRadius(): number {
 		return this.composeMaterial?.getFogBlurRadius() ?? 0.0
 	}
@@ -338,151 +1340,468 @@ export class Pipeline {
 		}
 	}
 
-	public setVignetteIntensity(value: number): void {
+	public getDepthAwareUpsample(): boolean {
+		return this.composeMaterial?.getDepthAwareUpsample() ?? false
+	}
+
+	public setDepthAwareUpsample(value: boolean): void {
 		if (this.composeMaterial) {
-			this.composeMaterial.setVignetteIntensity(value)
+			this.composeMaterial.setDepthAwareUpsample(value)
 		}
 	}
 
+	public setDepthOfFieldEnabled(value: boolean): void {
+		this.depthOfFieldPass.enabled = value
+	}
+
+	public setDepthOfFieldFStop(value: number): void {
+		this.depthOfFieldPass.setSettings({ fStop: value })
+	}
+
+	public setDepthOfFieldFocusDistance(value: number): void {
+		this.depthOfFieldPass.setSettings({ focusDistance: value })
+	}
+
+	public setDepthOfFieldMaxBlur(value: number): void {
+		this.depthOfFieldPass.setSettings({ maxBlur: value })
+	}
+
+	public getDepthOfFieldFocusMode(): DepthOfFieldFocusMode {
+		return this.depthOfFieldPass.getFocusMode()
+	}
+
+	public setDepthOfFieldFocusMode(mode: DepthOfFieldFocusMode): void {
+		this.depthOfFieldPass.setFocusMode(mode)
+	}
+
+	/**
+	 * Screen UV (origin bottom left) focused in 'cursor' autofocus mode
+	 */
+	public setDepthOfFieldFocusPoint(uv: THREE.Vector2): void {
+		this.depthOfFieldPass.setFocusPoint(uv)
+	}
+
+	/**
+	 * World position focused in 'target' autofocus mode
+	 */
+	public setDepthOfFieldFocusTarget(point: THREE.Vector3): void {
+		this.depthOfFieldPass.setFocusTarget(point)
+	}
+
+	public setMotionBlurEnabled(value: boolean): void {
+		this.motionBlurPass.enabled = value
+	}
+
+	public setMotionBlurIntensity(value: number): void {
+		this.motionBlurPass.setSettings({ intensity: value })
+	}
+
+	public setMotionBlurSamples(value: number): void {
+		this.motionBlurPass.setSettings({ samples: value })
+	}
+
+	public setMotionBlurMaxBlur(value: number): void {
+		this.motionBlurPass.setSettings({ maxBlur: value })
+	}
+
+	public setBloomEnabled(value: boolean): void {
+		this.bloomPass.enabled = value
+	}
+
+	public setBloomThreshold(value: number): void {
+		this.bloomPass.setSettings({ threshold: value })
+	}
+
+	public setBloomKnee(value: number): void {
+		this.bloomPass.setSettings({ knee: value })
+	}
+
+	public setBloomIntensity(value: number): void {
+		this.bloomPass.setSettings({ intensity: value })
+	}
+
+	public setBloomRadius(value: number): void {
+		this.bloomPass.setSettings({ radius: value })
+	}
+
+	public getToneMapping(): ToneMappingOperator {
+		return this.toneMappingPass.getOperator()
+	}
+
+	public setToneMapping(operator: ToneMappingOperator): void {
+		this.toneMappingPass.setOperator(operator)
+	}
+
+	public getLUT(): CubeLUT | null {
+		return this.lutPass.getLUT()
+	}
+
+	/**
+	 * Grades the tone mapped image with a 3D LUT, null turns grading off
+	 */
+	public setLUT(lut: CubeLUT | null): void {
+		this.lutPass.setLUT(lut)
+	}
+
+	public setLUTStrength(value: number): void {
+		this.lutPass.setSettings({ strength: value })
+	}
+
+	public setVignetteEnabled(value: boolean): void {
+		this.vignettePass.enabled = value
+	}
+
+	public setVignetteIntensity(value: number): void {
+		this.vignettePass.setSettings({ intensity: value })
+	}
+
 	public setVignetteRadius(value: number): void {
-		if (this.composeMaterial) {
-			this.composeMaterial.setVignetteRadius(value)
-		}
+		this.vignettePass.setSettings({ radius: value })
+	}
+
+	public setColorCorrectionEnabled(value: boolean): void {
+		this.colorCorrectionPass.enabled = value
 	}
 
 	public setExposure(value: number): void {
-		if (this.composeMaterial) {
-			this.composeMaterial.setExposure(value)
-		}
+		this.colorCorrectionPass.setSettings({ exposure: value })
 	}
 
 	public setContrast(value: number): void {
-		if (this.composeMaterial) {
-			this.composeMaterial.setContrast(value)
-		}
+		this.colorCorrectionPass.setSettings({ contrast: value })
 	}
 
 	public setSaturation(value: number): void {
-		if (this.composeMaterial) {
-			this.composeMaterial.setSaturation(value)
-		}
+		this.colorCorrectionPass.setSettings({ saturation: value })
 	}
 
 	public setPostProcessingBrightness(value: number): void {
-		if (this.composeMaterial) {
-			this.composeMaterial.setBrightness(value)
-		}
+		this.colorCorrectionPass.setSettings({ brightness: value })
 	}
 
 	private initColorBuffer(): void {
-		// Create color render target (full resolution)
-		this.colorTarget = new THREE.WebGLRenderTarget(window.innerWidth, window.innerHeight, {
-			minFilter: THREE.LinearFilter,
-			magFilter: THREE.LinearFilter,
-			format: THREE.RGBAFormat,
+		// Color buffer (full resolution, linear HDR) with a depth texture
+		// Last frame's depth is kept for TAA depth rejection
+		this.graph.addTarget('color', {
+			size: 'screen',
+			type: THREE.HalfFloatType,
+			depthTexture: true,
+			history: true,
+			scaleGroup: 'color',
 		})
 	}
 
-	private initDepthBuffer(): void {
-		const downsampledWidth = Math.floor(window.innerWidth / this.downsamplingFactor)
-		const downsampledHeight = Math.floor(window.innerHeight / this.downsamplingFactor)
-
-		// Create depth render target (downsampled) with depth texture enabled
-		this.depthTarget = new THREE.WebGLRenderTarget(downsampledWidth, downsampledHeight, {
-			minFilter: THREE.NearestFilter,
-			magFilter: THREE.NearestFilter,
-			format: THREE.RGBAFormat,
-			type: THREE.UnsignedByteType,
-			depthTexture: new THREE.DepthTexture(downsampledWidth, downsampledHeight),
+	private initAmbientOcclusion(): void {
+		// Prepass view-space normals with a depth texture, drawn like the color buffer but unjittered
+		this.graph.addTarget('ambientOcclusionPrepass', {
+			size: 'screen',
+			filter: THREE.NearestFilter,
+			type: THREE.HalfFloatType,
+			depthTexture: true,
+			scaleGroup: 'color',
+		})
+		// Same storage as 'objectVelocity' (half float with a depth buffer): it is only read by the ao pass,
+		// which runs before the velocity pass, so the graph aliases the two
+		this.graph.addTarget('ambientOcclusionRaw', {
+			size: 'screen',
+			filter: THREE.NearestFilter,
+			type: THREE.HalfFloatType,
+			scaleGroup: 'color',
+		})
+		// Accumulated occlusion and linear depth, blended into from last frame's result
+		this.graph.addTarget('ambientOcclusion', {
+			size: 'screen',
+			type: THREE.HalfFloatType,
+			depthBuffer: false,
+			history: true,
+			scaleGroup: 'color',
 		})
-	}
 
-	private initFog(): void {
-		const downsampledWidth = Math.floor(window.innerWidth / this.downsamplingFactor)
-		const downsampledHeight = Math.floor(window.innerHeight / this.downsamplingFactor)
+		const { width, height } = this.getGraphSize()
+		this.ambientOcclusionMaterial = new AmbientOcclusionMaterial(width, height)
+		this.ambientOcclusionBlendMaterial = new AmbientOcclusionBlendMaterial(width, height)
+	}
 
-		// Create fog render targets (downsampled) with alpha support
-		this.fogCurrentTarget = new THREE.WebGLRenderTarget(downsampledWidth, downsampledHeight, {
-			minFilter: THREE.LinearFilter,
-			magFilter: THREE.LinearFilter,
-			format: THREE.RGBAFormat,
-			type: THREE.UnsignedByteType,
+	private initTAA(): void {
+		// TAA accumulation (full resolution, linear HDR), blended into from last frame's result
+		this.graph.addTarget('taa', { size: 'screen', type: THREE.HalfFloatType, history: true })
+
+		// Velocity targets (signed UV motion needs float precision), per-object motion is drawn like the color buffer
+		this.graph.addTarget('velocity', { size: 'screen', filter: THREE.NearestFilter, type: THREE.HalfFloatType })
+		this.graph.addTarget('objectVelocity', {
+			size: 'screen',
+			filter: THREE.NearestFilter,
+			type: THREE.HalfFloatType,
+			scaleGroup: 'color',
 		})
 
-		this.fogHistoryTarget = new THREE.WebGLRenderTarget(downsampledWidth, downsampledHeight, {
-			minFilter: THREE.LinearFilter,
-			magFilter: THREE.LinearFilter,
-			format: THREE.RGBAFormat,
-			type: THREE.UnsignedByteType,
+		const { width, height } = this.getGraphSize()
+		this.velocityMaterial = new TAAVelocityMaterial(width, height)
+		this.taaBlendMaterial = new TAABlendMaterial(width, height)
+	}
+
+	private initDepthBuffer(): void {
+		// Depth buffer (downsampled), last frame's depth is kept for fog disocclusion rejection
+		this.graph.addTarget('depth', {
+			size: 'downsampled',
+			filter: THREE.NearestFilter,
+			depthTexture: true,
+			history: true,
+			scaleGroup: 'fog',
 		})
+	}
 
-		this.fogBlendedTarget = new THREE.WebGLRenderTarget(downsampledWidth, downsampledHeight, {
-			minFilter: THREE.LinearFilter,
-			magFilter: THREE.LinearFilter,
-			format: THREE.RGBAFormat,
-			type: THREE.UnsignedByteType,
+	private initFog(): void {
+		const { downsampledWidth, downsampledHeight } = this.getGraphSize()
+
+		// Fog buffers (downsampled) with alpha support, per-channel transmittance in a second attachment
+		// Half float: in-scattered light is unbounded
+		this.graph.addTarget('fog', { size: 'downsampled', type: THREE.HalfFloatType, attachments: 2, scaleGroup: 'fog' })
+		this.graph.addTarget('fogAccumulation', {
+			size: 'downsampled',
+			type: THREE.HalfFloatType,
+			attachments: 2,
+			history: true,
+			scaleGroup: 'fog',
 		})
 
-		// Create fullscreen triangle for fog
 		this.fogMaterial = new FogMaterial(downsampledWidth, downsampledHeight, this.camera)
 
-		this.fogQuad = new THREE.Mesh(this.fullscreenTriangle, this.fogMaterial)
-
-		// Create camera for fullscreen quad
-		this.fogCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+		// Occupancy grid (resolution independent, nearest lookups in the march)
+		// Half float: densities are unbounded
+		this.graph.addTarget('fogOccupancy', {
+			size: { width: FOG_OCCUPANCY_GRID_SIZE, height: FOG_OCCUPANCY_GRID_SIZE, depth: FOG_OCCUPANCY_GRID_SIZE },
+			filter: THREE.NearestFilter,
+			type: THREE.HalfFloatType,
+			depthBuffer: false,
+		})
+		this.fogOccupancyMaterial = new FogOccupancyMaterial(this.fogMaterial, FOG_OCCUPANCY_GRID_SIZE)
+
+		// Fog shadow map (optical depth at four light-space depths, filtered lookups)
+		// Persistent: it is only rebuilt every fogShadowUpdateInterval frames
+		this.graph.addTarget('fogShadowMap', {
+			size: { width: FOG_SHADOW_MAP_SIZE, height: FOG_SHADOW_MAP_SIZE },
+			type: THREE.HalfFloatType,
+			depthBuffer: false,
+			persistent: true,
+		})
+		this.fogShadowMaterial = new FogShadowMaterial(this.fogMaterial)
 
-		// Create fog blend material and triangle
 		this.fogBlendMaterial = new FogBlendMaterial()
-		this.fogBlendQuad = new THREE.Mesh(this.fullscreenTriangle, this.fogBlendMaterial)
 
-		this.fogBlendCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+		// Fog velocity target (signed UV motion + previous linear depth needs float precision)
+		this.graph.addTarget('fogVelocity', {
+			size: 'downsampled',
+			filter: THREE.NearestFilter,
+			type: THREE.HalfFloatType,
+			scaleGroup: 'fog',
+		})
+		this.fogVelocityMaterial = new TAAVelocityMaterial(downsampledWidth, downsampledHeight)
 	}
 
 	private initComposition(): void {
-		// Create fullscreen triangle for composition
-		this.composeMaterial = new ComposeMaterial(window.innerWidth, window.innerHeight)
+		const { width, height, downsampledWidth, downsampledHeight } = this.getGraphSize()
+		this.composeMaterial = new ComposeMaterial(width, height)
+		this.composeMaterial.updateFogResolution(downsampledWidth, downsampledHeight)
 
-		this.composeQuad = new THREE.Mesh(this.fullscreenTriangle, this.composeMaterial)
+		// Post-process ping-pong targets, half float so HDR values survive until tone mapping
+		this.graph.addTarget('composite', { size: 'screen', type: THREE.HalfFloatType, depthBuffer: false })
+		this.graph.addTarget('postProcess', { size: 'screen', type: THREE.HalfFloatType, depthBuffer: false })
+	}
 
-		// Create camera for fullscreen quad
-		this.composeCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+	private initDebugView(): void {
+		const { downsampledWidth, downsampledHeight } = this.getGraphSize()
+		this.debugViewMaterial = new DebugViewMaterial(downsampledWidth, downsampledHeight)
 	}
 
-	private initDebugDepth(): void {
-		// Create fullscreen triangle for depth visualization
-		const downsampledWidth = Math.floor(window.innerWidth / this.downsamplingFactor)
-		const downsampledHeight = Math.floor(window.innerHeight / this.downsamplingFactor)
-		this.depthPassMaterial = new DepthPassMaterial(downsampledWidth, downsampledHeight)
+	private initGraph(): void {
+		this.graph.addPass({
+			name: 'fogShadow',
+			reads: [],
+			writes: ['fogShadowMap'],
+			execute: () => this.renderFogShadow(),
+		})
+
+		// Ambient occlusion (full resolution) from a depth and normals prepass, read by the color buffer
+		this.graph.addPass({
+			name: 'aoPrepass',
+			reads: [],
+			writes: ['ambientOcclusionPrepass'],
+			enabled: () => this.ambientOcclusionEnabled,
+			execute: () => this.renderAmbientOcclusionPrepass(),
+		})
+		this.graph.addPass({
+			name: 'ao',
+			reads: ['ambientOcclusionPrepass', 'ambientOcclusion'],
+			writes: ['ambientOcclusionRaw', 'ambientOcclusion'],
+			enabled: () => this.ambientOcclusionEnabled,
+			execute: () => this.renderAmbientOcclusion(),
+			resize: ({ width, height }) => {
+				this.ambientOcclusionMaterial?.updateResolution(width, height)
+				this.ambientOcclusionBlendMaterial?.updateTexelSize(width, height)
+			},
+		})
 
-		// Reserved for future debug depth rendering
-		this._depthPassQuad = new THREE.Mesh(this.fullscreenTriangle, this.depthPassMaterial)
+		// Color buffer (full resolution) with default materials, jittered when TAA is on
+		this.graph.addPass({
+			name: 'color',
+			reads: ['ambientOcclusion'],
+			writes: ['color'],
+			execute: () => this.renderColorBuffer(),
+			resize: ({ width, height }) => this.stochasticTransparencyMaterial?.updateResolution(width, height),
+		})
+
+		// Camera and object motion (full resolution) for TAA and motion blur
+		this.graph.addPass({
+			name: 'velocity',
+			reads: ['color'],
+			writes: ['objectVelocity', 'velocity'],
+			enabled: () => this.isVelocityEnabled(),
+			execute: () => this.renderVelocity(),
+			resize: ({ width, height }) => this.velocityMaterial?.updateResolution(width, height),
+		})
+
+		// Temporal anti-aliasing of the color buffer (full resolution)
+		this.graph.addPass({
+			name: 'taa',
+			reads: ['color', 'taa', 'velocity'],
+			writes: ['taa'],
+			enabled: () => this.taaEnabled,
+			execute: () => this.resolveTAA(),
+			resize: ({ width, height }) => this.taaBlendMaterial?.updateTexelSize(width, height),
+		})
+
+		// Depth buffer (downsampled) with stochastic depth for transparent objects
+		this.graph.addPass({
+			name: 'depth',
+			reads: [],
+			writes: ['depth'],
+			execute: () => this.renderDepthBuffer(),
+			resize: ({ downsampledWidth, downsampledHeight }) =>
+				this.stochasticDepthMaterial?.updateResolution(downsampledWidth, downsampledHeight),
+		})
+
+		// Coarse max-density grid for empty-space skipping
+		this.graph.addPass({
+			name: 'occupancy',
+			reads: [],
+			writes: ['fogOccupancy'],
+			execute: () => this.renderFogOccupancy(),
+		})
 
-		// Camera created but not currently used - reserved for future debug depth rendering
-		// this._depthPassCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+		// Fog ray-march (downsampled) against the depth buffer
+		this.graph.addPass({
+			name: 'fog',
+			reads: ['depth', 'fogOccupancy', 'fogShadowMap'],
+			writes: ['fog'],
+			execute: () => this.renderFog(),
+			resize: ({ downsampledWidth, downsampledHeight }) =>
+				this.fogMaterial?.updateResolution(downsampledWidth, downsampledHeight),
+		})
+
+		// Blend fog with motion-reprojected history
+		this.graph.addPass({
+			name: 'fogBlend',
+			reads: ['fog', 'depth', 'fogAccumulation'],
+			writes: ['fogVelocity', 'fogAccumulation'],
+			execute: () => this.blendFog(),
+			resize: ({ downsampledWidth, downsampledHeight }) =>
+				this.fogVelocityMaterial?.updateResolution(downsampledWidth, downsampledHeight),
+		})
+
+		// Compose color with depth-aware upsampled fog (full resolution)
+		this.graph.addPass({
+			name: 'compose',
+			reads: ['color', 'taa', 'fogAccumulation', 'depth'],
+			writes: ['composite'],
+			execute: () => this.compose(),
+			resize: ({ width, height, downsampledWidth, downsampledHeight }) => {
+				this.composeMaterial?.updateResolution(width, height)
+				this.composeMaterial?.updateFogResolution(downsampledWidth, downsampledHeight)
+			},
+		})
+
+		// Debug view of an intermediate buffer, drawn over the final image
+		// (reading the buffers also keeps them from being aliased until the end of the frame)
+		this.graph.addPass({
+			name: 'debugView',
+			reads: [
+				'depth',
+				'fog',
+				'fogAccumulation',
+				'velocity',
+				'fogVelocity',
+				'fogShadowMap',
+				'ambientOcclusion',
+			],
+			writes: [],
+			enabled: () => this.debugView !== 'final',
+			execute: () => this.renderDebugView(),
+			resize: ({ downsampledWidth, downsampledHeight }) =>
+				this.debugViewMaterial?.updateResolution(downsampledWidth, downsampledHeight),
+		})
+
+		// Post-process passes go between the composition and the debug view, the last one draws to the screen.
+		// Built-in effects: depth of field, motion blur, bloom and grading in linear HDR, tone mapping to
+		// display values, the LUT (authored for display values), then the vignette
+		this.addPostProcessPass(this.depthOfFieldPass)
+		this.addPostProcessPass(this.motionBlurPass)
+		this.addPostProcessPass(this.bloomPass)
+		this.addPostProcessPass(this.colorCorrectionPass)
+		this.addPostProcessPass(this.toneMappingPass)
+		this.addPostProcessPass(this.lutPass)
+		this.addPostProcessPass(this.vignettePass)
+
+		this.graph.compile(this.getGraphSize())
 	}
 
 	public dispose(): void {
-		// Clean up color buffer
-		this.colorTarget?.dispose()
+		// Clean up render targets and the shared fullscreen triangle
+		this.graph.dispose()
+
+		// Clean up ambient occlusion
+		this.ambientOcclusionNormalMaterials.dispose()
+		this.ambientOcclusionMaterial?.dispose()
+		this.ambientOcclusionBlendMaterial?.dispose()
+
+		// Clean up TAA and velocity
+		this.velocityMaterial?.dispose()
+		this.objectVelocityMaterials.dispose()
+		this.taaBlendMaterial?.dispose()
+		this.stochasticTransparencyMaterial?.dispose()
 
 		// Clean up depth buffer
-		this.depthTarget?.dispose()
 		this.stochasticDepthMaterial?.dispose()
 
 		// Clean up fog
-		this.fogCurrentTarget?.dispose()
-		this.fogHistoryTarget?.dispose()
-		this.fogBlendedTarget?.dispose()
 		this.fogMaterial?.dispose()
 		this.fogBlendMaterial?.dispose()
-
-		// Clean up composition
+		this.fogVelocityMaterial?.dispose()
+		this.fogNoiseTexture?.dispose()
+		this.fogCurlNoiseTexture?.dispose()
+		this.fogBlueNoiseTexture?.dispose()
+		this.fogOccupancyMaterial?.dispose()
+		this.fogShadowMaterial?.dispose()
+
+		// Clean up composition and post-process passes (built-in ones too, in case they were unregistered)
 		this.composeMaterial?.dispose()
+		const builtInPasses = [
+			this.depthOfFieldPass,
+			this.motionBlurPass,
+			this.bloomPass,
+			this.colorCorrectionPass,
+			this.toneMappingPass,
+			this.lutPass,
+			this.vignettePass,
+		]
+		for (const pass of new Set([...this.postProcessPasses, ...builtInPasses])) {
+			pass.dispose()
+		}
 
-		// Clean up debug depth
-		this.depthPassMaterial?.dispose()
+		// Clean up debug view
+		this.debugViewMaterial?.dispose()
 
-		// Clean up shared fullscreen triangle geometry
-		this.fullscreenTriangle.dispose()
+		// Clean up profiler queries
+		this.profiler.dispose()
 	}
 }
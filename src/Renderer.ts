@@ -6,24 +6,28 @@ import { Scene } from './Scene'
 import { Pipeline } from './Pipeline'
 import { Settings } from './utils/Settings'
 import { SettingsStorage } from './utils/SettingsStorage'
+import { ProfilerOverlay } from './profiling/ProfilerOverlay'
 
 export class Renderer {
 	private canvas: HTMLCanvasElement
 	private camera: THREE.PerspectiveCamera
 	private renderer: THREE.WebGLRenderer
-	// @ts-ignore - Reserved for future use
-	private _resourceLoader: ResourceLoader
+	private resourceLoader: ResourceLoader
 	private controls: OrbitControls | null = null
 	private animationFrameId: number | null = null
 	private sceneBuilder: Scene | null = null
 	private pipeline: Pipeline
 	private stats: Stats | null = null
+	private profilerOverlay: ProfilerOverlay | null = null
 	private settings: Settings
 	private settingsStorage: SettingsStorage | null = null
+	private pointerUv: THREE.Vector2 = new THREE.Vector2(0.5, 0.5)
+	// Kept to remove the listener on dispose
+	private readonly pointerMoveHandler = (event: PointerEvent): void => this.onPointerMove(event)
 
 	constructor(canvas: HTMLCanvasElement, resourceLoader: ResourceLoader) {
 		this.canvas = canvas
-		this._resourceLoader = resourceLoader
+		this.resourceLoader = resourceLoader
 
 		// Initialize Three.js core components
 		this.camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000)
@@ -102,6 +106,9 @@ export class Renderer {
 		// Save camera position when controls change
 		this.setupCameraSave()
 
+		// Depth of field autofocus on the point under the cursor
+		this.canvas.addEventListener('pointermove', this.pointerMoveHandler)
+
 		// Set scene in pipeline
 		this.pipeline.setScene(this.sceneBuilder)
 
@@ -111,11 +118,24 @@ export class Renderer {
 		// Apply loaded settings
 		this.applySettings()
 
+		// Restore the selected LUT from IndexedDB
+		try {
+			const savedLUT = this.settingsStorage ? await this.settingsStorage.loadLUT() : null
+			if (savedLUT) {
+				this.pipeline.setLUT(this.resourceLoader.addLUT(savedLUT.name, savedLUT.source))
+			}
+		} catch (error) {
+			console.warn('Failed to restore LUT from IndexedDB:', error)
+		}
+
 		// Setup dat.gui controls
 		this.setupGUI()
 
 		// Setup Stats.js FPS counter
 		this.setupStats()
+
+		// Setup per-pass timing overlay (visible while the profiler is enabled)
+		this.profilerOverlay = new ProfilerOverlay(this.pipeline.getProfiler())
 	}
 
 	private setupStats(): void {
@@ -158,12 +178,29 @@ export class Renderer {
 	}
 
 	private setupGUI(): void {
-		this.settings.setupGUI(this.pipeline, this.sceneBuilder!, this.settingsStorage)
+		this.settings.setupGUI(this.pipeline, this.sceneBuilder!, this.settingsStorage, this.resourceLoader)
 	}
 
 	private applySettings(): void {
 		// Apply render settings
 		this.pipeline.setDownsamplingFactor(this.settings.getDownsampling())
+		this.pipeline.setFogInterleave(this.settings.getFogInterleave())
+		this.pipeline.setTAAEnabled(this.settings.getTAA())
+		this.pipeline.setStochasticTransparencyEnabled(this.settings.getStochasticTransparency())
+		this.pipeline.setAmbientOcclusionEnabled(this.settings.getAmbientOcclusion())
+		this.pipeline.setAmbientOcclusionRadius(this.settings.getAmbientOcclusionRadius())
+		this.pipeline.setAmbientOcclusionIntensity(this.settings.getAmbientOcclusionIntensity())
+		this.pipeline.setAmbientOcclusionSamples(this.settings.getAmbientOcclusionSamples())
+		this.pipeline.getProfiler().enabled = this.settings.getProfiler()
+		this.pipeline.setDebugView(this.settings.getDebugView())
+		this.pipeline.setDebugViewLayout(this.settings.getDebugViewLayout())
+
+		// Apply dynamic resolution settings
+		const dynamicResolution = this.pipeline.getDynamicResolution()
+		dynamicResolution.enabled = this.settings.getDynamicResolution()
+		dynamicResolution.targetFps = this.settings.getTargetFps()
+		dynamicResolution.minScale = this.settings.getMinRenderScale()
+		dynamicResolution.scaleColor = this.settings.getDynamicColorScale()
 
 		// Apply fog settings
 		const fogMaterial = this.pipeline.getFogMaterial()
@@ -177,20 +214,75 @@ export class Renderer {
 			if (fogMaterial.uniforms.fogSteps) {
 				fogMaterial.uniforms.fogSteps.value = this.settings.getFogSteps()
 			}
-			if (fogMaterial.uniforms.rayNoiseScale) {
-				fogMaterial.uniforms.rayNoiseScale.value = this.settings.getRayNoiseScale()
+			this.pipeline.setBakedNoiseEnabled(this.settings.getFogBakedNoise())
+			if (fogMaterial.uniforms.stepDistanceScale) {
+				fogMaterial.uniforms.stepDistanceScale.value = this.settings.getFogStepDistanceScale()
+			}
+			if (fogMaterial.uniforms.minTransmittance) {
+				fogMaterial.uniforms.minTransmittance.value = this.settings.getFogMinTransmittance()
+			}
+			this.pipeline.setEmptySpaceSkippingEnabled(this.settings.getFogEmptySpaceSkipping())
+			if (fogMaterial.uniforms.emptySpaceThreshold) {
+				fogMaterial.uniforms.emptySpaceThreshold.value = this.settings.getFogEmptySpaceThreshold()
+			}
+			if (fogMaterial.uniforms.showStepHeatmap) {
+				fogMaterial.uniforms.showStepHeatmap.value = this.settings.getFogStepHeatmap()
+			}
+			this.pipeline.setVolumetricShadowsEnabled(this.settings.getFogVolumetricShadows())
+			this.pipeline.setVolumetricShadowInterval(this.settings.getFogVolumetricShadowInterval())
+			fogMaterial.setPhaseModel(this.settings.getFogPhaseModel())
+			if (fogMaterial.uniforms.phaseG) {
+				fogMaterial.uniforms.phaseG.value = this.settings.getFogPhaseG()
 			}
+			if (fogMaterial.uniforms.phaseG2) {
+				fogMaterial.uniforms.phaseG2.value = this.settings.getFogPhaseG2()
+			}
+			if (fogMaterial.uniforms.phaseLobeBlend) {
+				fogMaterial.uniforms.phaseLobeBlend.value = this.settings.getFogPhaseLobeBlend()
+			}
+			fogMaterial.setScatteringCoefficient(...this.settings.getFogScattering())
+			fogMaterial.setAbsorptionCoefficient(...this.settings.getFogAbsorption())
 		}
 
 		this.pipeline.setFogBlendFactor(this.settings.getFogBlendFactor())
 		this.pipeline.setFogBlurRadius(this.settings.getFogBlur())
+		this.pipeline.setDepthAwareUpsample(this.settings.getDepthAwareUpsample())
 
 		// Apply particle brightness
 		this.setParticleBrightness(this.settings.getParticleBrightness())
 
+		// Apply wind settings
+		if (this.sceneBuilder) {
+			const wind = this.sceneBuilder.wind
+			wind.direction = this.settings.getWindDirection()
+			wind.speed = this.settings.getWindSpeed()
+			wind.gustStrength = this.settings.getWindGustStrength()
+			wind.gustFrequency = this.settings.getWindGustFrequency()
+			wind.turbulence = this.settings.getWindTurbulence()
+		}
+
 		// Apply post-processing settings
+		this.pipeline.setFogCompositeMode(this.settings.getFogComposite())
+		this.pipeline.setToneMapping(this.settings.getToneMapping())
+		this.pipeline.setDepthOfFieldEnabled(this.settings.getDofEnabled())
+		this.pipeline.setDepthOfFieldFStop(this.settings.getDofFStop())
+		this.pipeline.setDepthOfFieldFocusDistance(this.settings.getDofFocusDistance())
+		this.pipeline.setDepthOfFieldFocusMode(this.settings.getDofFocusMode())
+		this.pipeline.setDepthOfFieldMaxBlur(this.settings.getDofMaxBlur())
+		this.pipeline.setMotionBlurEnabled(this.settings.getMotionBlurEnabled())
+		this.pipeline.setMotionBlurIntensity(this.settings.getMotionBlurIntensity())
+		this.pipeline.setMotionBlurSamples(this.settings.getMotionBlurSamples())
+		this.pipeline.setMotionBlurMaxBlur(this.settings.getMotionBlurMaxBlur())
+		this.pipeline.setBloomEnabled(this.settings.getBloomEnabled())
+		this.pipeline.setBloomThreshold(this.settings.getBloomThreshold())
+		this.pipeline.setBloomKnee(this.settings.getBloomKnee())
+		this.pipeline.setBloomIntensity(this.settings.getBloomIntensity())
+		this.pipeline.setBloomRadius(this.settings.getBloomRadius())
+		this.pipeline.setLUTStrength(this.settings.getLUTStrength())
+		this.pipeline.setVignetteEnabled(this.settings.getVignetteEnabled())
 		this.pipeline.setVignetteIntensity(this.settings.getVignetteIntensity())
 		this.pipeline.setVignetteRadius(this.settings.getVignetteRadius())
+		this.pipeline.setColorCorrectionEnabled(this.settings.getColorCorrectionEnabled())
 		this.pipeline.setExposure(this.settings.getExposure())
 		this.pipeline.setContrast(this.settings.getContrast())
 		this.pipeline.setSaturation(this.settings.getSaturation())
@@ -222,20 +314,35 @@ export class Renderer {
 			this.controls.update()
 		}
 
-		// Update particle positions and billboard them to face camera
+		// Advance the wind, then move particles with it and billboard them to face camera
 		if (this.sceneBuilder) {
+			this.sceneBuilder.updateWind()
 			this.sceneBuilder.updateParticles(this.camera)
 		}
 
+		// Depth of field autofocus on the orbit target
+		if (this.controls) {
+			this.pipeline.setDepthOfFieldFocusTarget(this.controls.target)
+		}
+
 		// Render through pipeline
 		this.pipeline.render()
 
+		// Refresh the per-pass timing breakdown
+		this.profilerOverlay?.update()
+
 		// End Stats.js measurement
 		if (this.stats) {
 			this.stats.end()
 		}
 	}
 
+	private onPointerMove(event: PointerEvent): void {
+		const rect = this.canvas.getBoundingClientRect()
+		this.pointerUv.set((event.clientX - rect.left) / rect.width, 1 - (event.clientY - rect.top) / rect.height)
+		this.pipeline.setDepthOfFieldFocusPoint(this.pointerUv)
+	}
+
 	private onResize(): void {
 		this.camera.aspect = window.innerWidth / window.innerHeight
 		this.camera.updateProjectionMatrix()
@@ -272,8 +379,10 @@ export class Renderer {
 
 		// Clean up GUI
 		this.settings.dispose()
+		this.profilerOverlay?.dispose()
 
 		this.renderer.dispose()
+		this.canvas.removeEventListener('pointermove', this.pointerMoveHandler)
 		window.removeEventListener('resize', () => this.onResize())
 	}
 }
@@ -1,6 +1,9 @@
 import * as THREE from 'three'
 import { TreeTrunkGeometry } from './geometries/TreeTrunkGeometry'
 import { TextureFactory } from './utils/TextureFactory'
+import { FogVolume } from './volumes/FogVolume'
+import { WindField } from './wind/WindField'
+import { WindSway } from './wind/WindSway'
 
 export class Scene {
 	public scene: THREE.Scene
@@ -11,6 +14,8 @@ export class Scene {
 	public gridHelper: THREE.GridHelper | null = null
 	public lightHelper: THREE.DirectionalLightHelper | null = null
 	public shadowHelper: THREE.CameraHelper | null = null
+	public fogVolumes: FogVolume[] = []
+	public wind: WindField = new WindField()
 	// Replace particles array with instanced mesh
 	public particleInstancedMesh: THREE.InstancedMesh | null = null
 	private particleVelocities: THREE.Vector3[] = []
@@ -29,6 +34,13 @@ export class Scene {
 	// @ts-ignore - Reserved for future use
 	private readonly _bayerMatrixSize: number = 4.0
 
+	// Wind animation state
+	private lastUpdateTime: number | null = null
+	private frameDelta: number = 0
+	private trunkSway: WindSway | null = null
+	private readonly trunkHeight: number = this.cubeSize * 2.5
+	private readonly trunkSwayAmount: number = 0.15 // Tip displacement per unit of wind speed
+
 	public constructor() {
 		this.scene = new THREE.Scene()
 	}
@@ -59,7 +71,7 @@ export class Scene {
 		// Tree trunk geometry (wider at base, narrower at top)
 		const baseRadius = this.cubeSize * 0.4 // Base radius (thinner than original cylinder)
 		const topRadius = this.cubeSize * 0.25 // Narrower top
-		const height = this.cubeSize * 2.5
+		const height = this.trunkHeight
 		const segments = 16 // More segments for smoother trunk
 		const nGonSides = 32 // Number of sides for the base polygon
 		const shiftAmount = 0.02 // Amount of shift in xz plane per segment
@@ -100,6 +112,9 @@ export class Scene {
 		this.cube.receiveShadow = true
 		this.scene.add(this.cube)
 
+		// Bent by the wind in the vertex shader
+		this.trunkSway = new WindSway(this.cube, this.trunkHeight)
+
 		// Directional light
 		this.directionalLight = new THREE.DirectionalLight(0xffffff, 1)
 		this.directionalLight.position.set(1, 2, 1)
@@ -124,6 +139,9 @@ export class Scene {
 		// Create particle cloud
 		this.createParticleCloud()
 
+		// Fog volume around the trunk
+		this.createFogVolumes()
+
 		// Setup helpers
 		this.axesHelper = new THREE.AxesHelper(5)
 		this.axesHelper.visible = this.showHelpers
@@ -183,11 +201,12 @@ export class Scene {
 
 			// Store position and velocity
 			this.particlePositions.push(position.clone())
+			// Own drift in units per second, the wind is added on top
 			this.particleVelocities.push(
 				new THREE.Vector3(
-					(Math.random() - 0.5) * 0.001,
-					(Math.random() - 0.5) * 0.001,
-					(Math.random() - 0.5) * 0.001
+					(Math.random() - 0.5) * 0.06,
+					(Math.random() - 0.5) * 0.06,
+					(Math.random() - 0.5) * 0.06
 				)
 			)
 
@@ -202,12 +221,43 @@ export class Scene {
 		this.scene.add(this.particleInstancedMesh)
 	}
 
+	private createFogVolumes(): void {
+		// Spherical fog volume centered above the floor
+		const fogSphere = new FogVolume({ shape: 'ellipsoid', density: 1.0 })
+		fogSphere.position.set(0, 1, 0)
+		fogSphere.scale.setScalar(3.5)
+		this.fogVolumes.push(fogSphere)
+	}
+
+	public updateWind(): void {
+		const time = performance.now() * 0.001
+		// Clamp the step so a backgrounded tab does not blow everything away on return
+		this.frameDelta = this.lastUpdateTime === null ? 0 : Math.min(time - this.lastUpdateTime, 0.1)
+		this.lastUpdateTime = time
+
+		this.wind.update(this.frameDelta)
+		this.updateTrunkSway()
+	}
+
+	private updateTrunkSway(): void {
+		if (!this.trunkSway) return
+
+		// Bend along the wind with the gusting speed, plus a small turbulent oscillation
+		const bend = this.wind.getDirection(new THREE.Vector3())
+		const speed = this.wind.getCurrentSpeed()
+		const oscillation = Math.sin(this.wind.getTime() * 2.1) * this.wind.turbulence * 0.3
+		bend.multiplyScalar(speed * (1 + oscillation) * this.trunkSwayAmount)
+
+		// Quadratic profile: rooted base, tip moves the most
+		this.trunkSway.setBend(bend)
+	}
+
 	public updateParticles(camera?: THREE.Camera): void {
 		if (!this.particleInstancedMesh || !camera) return
 
-		const time = Date.now() * 0.001
 		const matrix = new THREE.Matrix4()
 		const up = new THREE.Vector3(0, 1, 0)
+		const windVelocity = new THREE.Vector3()
 		const cameraPosition = camera.position
 
 		// Update each particle
@@ -215,13 +265,9 @@ export class Scene {
 			const position = this.particlePositions[i]
 			const velocity = this.particleVelocities[i]
 
-			// Update position with random movement
-			position.add(velocity)
-
-			// Add some noise for more organic movement (very slow)
-			position.x += Math.sin(time + position.y * 10) * 0.00005
-			position.y += Math.cos(time + position.x * 10) * 0.00005
-			position.z += Math.sin(time + position.x * 10) * 0.00005
+			// Own drift plus the local wind (including turbulence)
+			position.addScaledVector(velocity, this.frameDelta)
+			position.addScaledVector(this.wind.getVelocityAt(position, windVelocity), this.frameDelta)
 
 			// Wrap around bounds
 			if (position.x > 5) position.x = -5
@@ -285,6 +331,9 @@ export class Scene {
 		}
 		this.particleVelocities = []
 		this.particlePositions = []
+		this.fogVolumes = []
+		this.trunkSway?.dispose()
+		this.trunkSway = null
 
 		// Clean up Three.js resources
 		this.scene.traverse((object) => {
@@ -0,0 +1,391 @@
+import * as THREE from 'three'
+import { GPUProfiler } from '../profiling/GPUProfiler'
+
+// 'screen' follows the canvas, 'downsampled' the canvas divided by the downsampling factor, a scale follows
+// the canvas times the scale (rounded down), explicit sizes never change (depth > 1 allocates a 3D target)
+export type RenderTargetSize =
+	| 'screen'
+	| 'downsampled'
+	| { scale: number }
+	| { width: number; height: number; depth?: number }
+
+export interface RenderTargetDescriptor {
+	size: RenderTargetSize
+	type?: THREE.TextureDataType // Default UnsignedByteType
+	filter?: THREE.MagnificationTextureFilter // Default LinearFilter
+	depthBuffer?: boolean // Default true
+	depthTexture?: boolean // Sample the depth attachment as a DepthTexture
+	attachments?: number // Color attachments written at once (MRT), read from target.textures, default 1
+	history?: boolean // Two copies, swapped at the end of every frame (getHistoryTarget reads last frame)
+	persistent?: boolean // Contents must survive across frames (never aliased)
+	scaleGroup?: string // Dynamic resolution group, drawn into a sub-viewport (see setViewportScale)
+}
+
+export interface RenderGraphSize {
+	width: number
+	height: number
+	downsampledWidth: number
+	downsampledHeight: number
+}
+
+export interface RenderPassNode {
+	name: string
+	reads: string[] // Targets sampled by the pass (history reads included)
+	writes: string[] // Targets rendered by the pass
+	enabled?: () => boolean
+	execute: () => void
+	resize?: (size: RenderGraphSize) => void
+	dispose?: () => void
+}
+
+interface RenderTargetResource {
+	descriptor: RenderTargetDescriptor
+	current: THREE.WebGLRenderTarget | null
+	history: THREE.WebGLRenderTarget | null
+}
+
+/**
+ * Declarative pass list for the Pipeline.
+ * Passes declare the targets they read and write, the graph validates the order, allocates targets
+ * (transient targets with matching descriptors and disjoint lifetimes share storage), keeps them sized,
+ * swaps history targets, times every pass with the profiler and disposes everything at the end.
+ * Targets and passes added or removed after compile() take effect on the next execute(), which compiles again
+ * (history and persistent targets keep their storage and contents).
+ */
+export class RenderGraph {
+	// Shared fullscreen triangle, vertices extend beyond [-1, 1] to cover the entire screen
+	public readonly fullscreenGeometry: THREE.BufferGeometry
+
+	private renderer: THREE.WebGLRenderer
+	private profiler: GPUProfiler | null
+	private resources: Map<string, RenderTargetResource> = new Map()
+	private passes: RenderPassNode[] = []
+	private allocatedTargets: THREE.WebGLRenderTarget[] = []
+	private transientTargets: THREE.WebGLRenderTarget[] = []
+	private size: RenderGraphSize = { width: 1, height: 1, downsampledWidth: 1, downsampledHeight: 1 }
+	private fullscreenMesh: THREE.Mesh
+	private fullscreenCamera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+	private viewportScales: Map<string, number> = new Map()
+	private compiled: boolean = false
+
+	public constructor(renderer: THREE.WebGLRenderer, profiler: GPUProfiler | null = null) {
+		this.renderer = renderer
+		this.profiler = profiler
+
+		const positions = new Float32Array([
+			-1, -1, 0,  // bottom-left
+			3, -1, 0,   // extends far right
+			-1, 3, 0    // extends far up
+		])
+		const uvs = new Float32Array([
+			0, 0,  // bottom-left
+			2, 0,  // right
+			0, 2   // top
+		])
+		this.fullscreenGeometry = new THREE.BufferGeometry()
+		this.fullscreenGeometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+		this.fullscreenGeometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2))
+		this.fullscreenMesh = new THREE.Mesh(this.fullscreenGeometry)
+		this.fullscreenMesh.frustumCulled = false
+	}
+
+	public addTarget(name: string, descriptor: RenderTargetDescriptor): void {
+		if (this.resources.has(name)) throw new Error(`Render graph: target '${name}' declared twice`)
+		this.resources.set(name, { descriptor, current: null, history: null })
+		this.compiled = false
+	}
+
+	public removeTarget(name: string): void {
+		const resource = this.getResource(name)
+		// Transient storage may be shared with other targets, it is released by the next compile
+		if (resource.descriptor.history || resource.descriptor.persistent) {
+			for (const target of [resource.current, resource.history]) {
+				if (target) this.disposeTarget(target)
+			}
+		}
+		this.resources.delete(name)
+		this.compiled = false
+	}
+
+	/**
+	 * @param before Name of the pass to insert before (appended by default)
+	 */
+	public addPass(pass: RenderPassNode, before?: string): void {
+		if (this.passes.some((existing) => existing.name === pass.name)) {
+			throw new Error(`Render graph: pass '${pass.name}' declared twice`)
+		}
+		const index = before === undefined ? this.passes.length : this.getPassIndex(before)
+		this.passes.splice(index, 0, pass)
+		this.compiled = false
+	}
+
+	/**
+	 * Unregisters a pass, whatever it renders with is left to the caller to dispose
+	 */
+	public removePass(name: string): void {
+		this.passes.splice(this.getPassIndex(name), 1)
+		this.compiled = false
+	}
+
+	/**
+	 * Validates the pass order and allocates every declared target
+	 */
+	public compile(size: RenderGraphSize): void {
+		this.size = { ...size }
+
+		const firstWrite = new Map<string, number>()
+		const lastRead = new Map<string, number>()
+		this.passes.forEach((pass, index) => {
+			for (const name of pass.reads) {
+				const resource = this.getResource(name)
+				// History and persistent targets may be read before this frame's write (previous contents)
+				const keepsContents = resource.descriptor.history || resource.descriptor.persistent
+				if (!keepsContents && !firstWrite.has(name)) {
+					throw new Error(`Render graph: pass '${pass.name}' reads '${name}' before any pass writes it`)
+				}
+				lastRead.set(name, index)
+			}
+			for (const name of pass.writes) {
+				this.getResource(name)
+				if (!firstWrite.has(name)) firstWrite.set(name, index)
+			}
+		})
+
+		// Transient targets in first-write order, reusing storage whose last reader already ran
+		this.releaseTransientTargets()
+		const pool: { key: string; target: THREE.WebGLRenderTarget; freeAfter: number }[] = []
+		const transient = [...this.resources.entries()]
+			.filter(([, resource]) => !resource.descriptor.history && !resource.descriptor.persistent)
+			.sort(([a], [b]) => (firstWrite.get(a) ?? -1) - (firstWrite.get(b) ?? -1))
+		for (const [name, resource] of transient) {
+			const start = firstWrite.get(name) ?? -1
+			const end = Math.max(lastRead.get(name) ?? start, start)
+			const key = RenderGraph.getAliasKey(resource.descriptor)
+
+			const reusable = pool.find((entry) => entry.key === key && entry.freeAfter < start)
+			if (reusable) {
+				reusable.freeAfter = end
+				resource.current = reusable.target
+			} else {
+				resource.current = this.createTarget(resource.descriptor)
+				this.transientTargets.push(resource.current)
+				pool.push({ key, target: resource.current, freeAfter: end })
+			}
+		}
+
+		for (const resource of this.resources.values()) {
+			// Already allocated by an earlier compile
+			if (resource.current) continue
+			if (resource.descriptor.history || resource.descriptor.persistent) {
+				resource.current = this.createTarget(resource.descriptor)
+				resource.history = resource.descriptor.history ? this.createTarget(resource.descriptor) : null
+			}
+		}
+
+		// Storage allocated by this compile draws into the groups' current sub-viewports too
+		for (const [group, scale] of this.viewportScales) {
+			this.applyViewportScale(group, scale)
+		}
+
+		this.compiled = true
+		for (const pass of this.passes) {
+			pass.resize?.(this.size)
+		}
+	}
+
+	public getTarget(name: string): THREE.WebGLRenderTarget {
+		const target = this.getResource(name).current
+		if (!target) throw new Error(`Render graph: target '${name}' is not allocated, call compile() first`)
+		return target
+	}
+
+	/**
+	 * Last frame's contents of a history target
+	 */
+	public getHistoryTarget(name: string): THREE.WebGLRenderTarget {
+		const target = this.getResource(name).history
+		if (!target) throw new Error(`Render graph: target '${name}' has no history`)
+		return target
+	}
+
+	public getSize(): RenderGraphSize {
+		return this.size
+	}
+
+	public resize(size: RenderGraphSize): void {
+		this.size = { ...size }
+		for (const resource of this.resources.values()) {
+			// Explicit sizes do not follow the canvas
+			if (typeof resource.descriptor.size === 'object' && !('scale' in resource.descriptor.size)) continue
+
+			const { width, height } = this.getTargetSize(resource.descriptor)
+			resource.current?.setSize(width, height)
+			resource.history?.setSize(width, height)
+		}
+		for (const pass of this.passes) {
+			pass.resize?.(this.size)
+		}
+	}
+
+	/**
+	 * Draws every target of a dynamic resolution group into its top-left sub-viewport
+	 * @param uvScale Receives the drawn fraction of the targets, to map screen UVs into them
+	 */
+	public setViewportScale(group: string, scale: number, uvScale: THREE.Vector2): void {
+		this.viewportScales.set(group, scale)
+		const reference = this.applyViewportScale(group, scale)
+		if (reference) {
+			uvScale.set(reference.viewport.z / reference.width, reference.viewport.w / reference.height)
+		}
+	}
+
+	/**
+	 * Runs the enabled passes in declaration order, then swaps history targets
+	 */
+	public execute(): void {
+		// Passes or targets changed since the last compile
+		if (!this.compiled) {
+			this.compile(this.size)
+		}
+
+		for (const pass of this.passes) {
+			if (pass.enabled && !pass.enabled()) continue
+			if (this.profiler) {
+				this.profiler.measure(pass.name, pass.execute)
+			} else {
+				pass.execute()
+			}
+		}
+
+		for (const resource of this.resources.values()) {
+			if (resource.history) {
+				const temp = resource.history
+				resource.history = resource.current
+				resource.current = temp
+			}
+		}
+	}
+
+	/**
+	 * Renders a fullscreen triangle with the given material
+	 * @param layer Slice of a 3D target to render into
+	 */
+	public renderFullscreen(material: THREE.Material, target: THREE.WebGLRenderTarget | null, layer: number = 0): void {
+		this.fullscreenMesh.material = material
+		this.renderer.setRenderTarget(target, layer)
+		this.renderer.render(this.fullscreenMesh, this.fullscreenCamera)
+	}
+
+	public dispose(): void {
+		for (const pass of this.passes) {
+			pass.dispose?.()
+		}
+		for (const target of this.allocatedTargets) {
+			target.dispose()
+		}
+		this.allocatedTargets = []
+		this.transientTargets = []
+		this.fullscreenGeometry.dispose()
+	}
+
+	private getResource(name: string): RenderTargetResource {
+		const resource = this.resources.get(name)
+		if (!resource) throw new Error(`Render graph: unknown target '${name}'`)
+		return resource
+	}
+
+	/**
+	 * @returns One of the group's targets, or null when the group has none
+	 */
+	private applyViewportScale(group: string, scale: number): THREE.WebGLRenderTarget | null {
+		const targets = [...this.resources.values()]
+			.filter((resource) => resource.descriptor.scaleGroup === group)
+			.flatMap((resource) => [resource.current, resource.history])
+			.filter((target): target is THREE.WebGLRenderTarget => target !== null)
+		if (targets.length === 0) return null
+
+		// All targets of a group share the same size
+		const reference = targets[0]
+		const width = Math.max(1, Math.round(reference.width * scale))
+		const height = Math.max(1, Math.round(reference.height * scale))
+		for (const target of targets) {
+			target.viewport.set(0, 0, width, height)
+		}
+		return reference
+	}
+
+	private getPassIndex(name: string): number {
+		const index = this.passes.findIndex((pass) => pass.name === name)
+		if (index === -1) throw new Error(`Render graph: unknown pass '${name}'`)
+		return index
+	}
+
+	private releaseTransientTargets(): void {
+		for (const target of this.transientTargets) {
+			this.disposeTarget(target)
+		}
+		this.transientTargets = []
+		for (const resource of this.resources.values()) {
+			if (!resource.descriptor.history && !resource.descriptor.persistent) {
+				resource.current = null
+			}
+		}
+	}
+
+	private disposeTarget(target: THREE.WebGLRenderTarget): void {
+		target.dispose()
+		this.allocatedTargets.splice(this.allocatedTargets.indexOf(target), 1)
+	}
+
+	private getTargetSize(descriptor: RenderTargetDescriptor): { width: number; height: number; depth: number } {
+		if (descriptor.size === 'screen') {
+			return { width: this.size.width, height: this.size.height, depth: 1 }
+		}
+		if (descriptor.size === 'downsampled') {
+			return { width: this.size.downsampledWidth, height: this.size.downsampledHeight, depth: 1 }
+		}
+		if ('scale' in descriptor.size) {
+			const { scale } = descriptor.size
+			return {
+				width: Math.max(1, Math.floor(this.size.width * scale)),
+				height: Math.max(1, Math.floor(this.size.height * scale)),
+				depth: 1,
+			}
+		}
+		return { width: descriptor.size.width, height: descriptor.size.height, depth: descriptor.size.depth ?? 1 }
+	}
+
+	private createTarget(descriptor: RenderTargetDescriptor): THREE.WebGLRenderTarget {
+		const { width, height, depth } = this.getTargetSize(descriptor)
+		const filter = descriptor.filter ?? THREE.LinearFilter
+		const options: THREE.RenderTargetOptions = {
+			minFilter: filter,
+			magFilter: filter,
+			format: THREE.RGBAFormat,
+			type: descriptor.type ?? THREE.UnsignedByteType,
+			depthBuffer: descriptor.depthBuffer ?? true,
+			depthTexture: descriptor.depthTexture ? new THREE.DepthTexture(width, height) : null,
+			count: descriptor.attachments ?? 1,
+		}
+
+		const target =
+			depth > 1
+				? new THREE.WebGL3DRenderTarget(width, height, depth, options)
+				: new THREE.WebGLRenderTarget(width, height, options)
+		this.allocatedTargets.push(target)
+		return target
+	}
+
+	private static getAliasKey(descriptor: RenderTargetDescriptor): string {
+		// Everything that affects the allocated storage or how it is drawn into
+		return JSON.stringify([
+			descriptor.size,
+			descriptor.type,
+			descriptor.filter,
+			descriptor.depthBuffer,
+			descriptor.depthTexture,
+			descriptor.attachments,
+			descriptor.scaleGroup,
+		])
+	}
+}
@@ -0,0 +1,104 @@
+import * as THREE from 'three'
+
+export interface CubeLUT {
+	name: string
+	title: string
+	size: number // Entries per axis
+	domainMin: THREE.Vector3
+	domainMax: THREE.Vector3
+	texture: THREE.Data3DTexture
+	source: string // Original .cube text, kept so the LUT can be stored and parsed again
+}
+
+/**
+ * Parser for Adobe / Resolve .cube 3D LUTs.
+ * Entries are listed with red changing fastest, which is the x-fastest layout of a 3D texture,
+ * so the table is uploaded as is (half float RGBA, filterable everywhere in WebGL2).
+ */
+export class CubeLUTParser {
+	public static parse(source: string, name: string): CubeLUT {
+		let title = name
+		let size = 0
+		const domainMin = new THREE.Vector3(0, 0, 0)
+		const domainMax = new THREE.Vector3(1, 1, 1)
+		let data: Uint16Array | null = null
+		let entry = 0
+
+		const lines = source.split(/\r?\n/)
+		lines.forEach((rawLine, index) => {
+			const line = rawLine.trim()
+			if (line === '' || line.startsWith('#')) return
+
+			const [keyword, ...values] = line.split(/\s+/)
+			switch (keyword) {
+				case 'TITLE':
+					title = line.slice('TITLE'.length).trim().replace(/^"|"$/g, '')
+					return
+				case 'LUT_3D_SIZE':
+					size = parseInt(values[0], 10)
+					if (!(size >= 2 && size <= 256)) {
+						throw new Error(`Cube LUT '${name}': invalid LUT_3D_SIZE on line ${index + 1}`)
+					}
+					data = new Uint16Array(size * size * size * 4)
+					return
+				case 'DOMAIN_MIN':
+					domainMin.fromArray(CubeLUTParser.parseTriplet(values, name, index))
+					return
+				case 'DOMAIN_MAX':
+					domainMax.fromArray(CubeLUTParser.parseTriplet(values, name, index))
+					return
+				case 'LUT_1D_SIZE':
+				case 'LUT_1D_INPUT_RANGE':
+					throw new Error(`Cube LUT '${name}': 1D LUTs are not supported`)
+				case 'LUT_3D_INPUT_RANGE': {
+					const [min, max] = values.map(Number)
+					domainMin.setScalar(min)
+					domainMax.setScalar(max)
+					return
+				}
+			}
+
+			// Keywords this parser does not use (LUT_IN_VIDEO_RANGE, vendor extensions) are skipped
+			if (/^[A-Za-z]/.test(keyword)) return
+
+			// Table entry
+			if (!data) {
+				throw new Error(`Cube LUT '${name}': data before LUT_3D_SIZE on line ${index + 1}`)
+			}
+			if (entry >= size * size * size) {
+				throw new Error(`Cube LUT '${name}': more than ${size}^3 entries`)
+			}
+			const [r, g, b] = CubeLUTParser.parseTriplet([keyword, ...values], name, index)
+			data[entry * 4] = THREE.DataUtils.toHalfFloat(r)
+			data[entry * 4 + 1] = THREE.DataUtils.toHalfFloat(g)
+			data[entry * 4 + 2] = THREE.DataUtils.toHalfFloat(b)
+			data[entry * 4 + 3] = THREE.DataUtils.toHalfFloat(1)
+			entry++
+		})
+
+		if (!data || entry !== size * size * size) {
+			throw new Error(`Cube LUT '${name}': expected ${size}^3 entries, found ${entry}`)
+		}
+
+		const texture = new THREE.Data3DTexture(data, size, size, size)
+		texture.format = THREE.RGBAFormat
+		texture.type = THREE.HalfFloatType
+		texture.minFilter = THREE.LinearFilter
+		texture.magFilter = THREE.LinearFilter
+		texture.wrapS = THREE.ClampToEdgeWrapping
+		texture.wrapT = THREE.ClampToEdgeWrapping
+		texture.wrapR = THREE.ClampToEdgeWrapping
+		texture.unpackAlignment = 1
+		texture.needsUpdate = true
+
+		return { name, title, size, domainMin, domainMax, texture, source }
+	}
+
+	private static parseTriplet(values: string[], name: string, index: number): [number, number, number] {
+		const triplet = values.slice(0, 3).map(Number)
+		if (triplet.length !== 3 || triplet.some((value) => !Number.isFinite(value))) {
+			throw new Error(`Cube LUT '${name}': expected three numbers on line ${index + 1}`)
+		}
+		return [triplet[0], triplet[1], triplet[2]]
+	}
+}
@@ -1,23 +1,28 @@
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { TextureLoader } from 'three';
+import { CubeLUT, CubeLUTParser } from './CubeLUTParser';
 
 export interface LoadedResources {
   models: Map<string, THREE.Group>;
   textures: Map<string, THREE.Texture>;
+  luts: Map<string, CubeLUT>;
 }
 
 export class ResourceLoader {
   private gltfLoader: GLTFLoader;
   private textureLoader: TextureLoader;
+  private fileLoader: THREE.FileLoader;
   private resources: LoadedResources;
 
   public constructor() {
     this.gltfLoader = new GLTFLoader();
     this.textureLoader = new TextureLoader();
+    this.fileLoader = new THREE.FileLoader();
     this.resources = {
       models: new Map(),
-      textures: new Map()
+      textures: new Map(),
+      luts: new Map()
     };
   }
 
@@ -65,6 +70,40 @@ export class ResourceLoader {
     });
   }
 
+  /**
+   * Loads a .cube 3D LUT, by default from public/assets/luts/<name>.cube
+   */
+  public async loadLUT(name: string, path: string = `${import.meta.env.BASE_URL}assets/luts/${name}.cube`): Promise<CubeLUT> {
+    return new Promise((resolve, reject) => {
+      this.fileLoader.load(
+        path,
+        (data: string | ArrayBuffer) => {
+          try {
+            resolve(this.addLUT(name, data as string));
+          } catch (error) {
+            console.error(`Failed to parse LUT ${name}:`, error);
+            reject(error);
+          }
+        },
+        undefined,
+        (error: unknown) => {
+          console.error(`Failed to load LUT ${name}:`, error);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Parses .cube text (an imported file or a stored LUT) and registers it under the given name
+   */
+  public addLUT(name: string, source: string): CubeLUT {
+    const lut = CubeLUTParser.parse(source, name);
+    this.resources.luts.get(name)?.texture.dispose();
+    this.resources.luts.set(name, lut);
+    return lut;
+  }
+
   public getModel(name: string): THREE.Group | undefined {
     return this.resources.models.get(name);
   }
@@ -73,6 +112,14 @@ export class ResourceLoader {
     return this.resources.textures.get(name);
   }
 
+  public getLUT(name: string): CubeLUT | undefined {
+    return this.resources.luts.get(name);
+  }
+
+  public getLUTNames(): string[] {
+    return [...this.resources.luts.keys()];
+  }
+
   public getResources(): LoadedResources {
     return this.resources;
   }
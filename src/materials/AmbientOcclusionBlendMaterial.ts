@@ -0,0 +1,58 @@
+import * as THREE from 'three'
+import postProcessVert from '../shaders/postProcess.vert.glsl?raw'
+import ambientOcclusionBlendFrag from '../shaders/ambientOcclusionBlend.frag.glsl?raw'
+
+export class AmbientOcclusionBlendMaterial extends THREE.ShaderMaterial {
+	// This frame's view-projection, the reprojection target of the next frame
+	private viewProjectionMatrix: THREE.Matrix4 = new THREE.Matrix4()
+
+	public constructor(width: number, height: number) {
+		super({
+			uniforms: {
+				tAmbientOcclusion: { value: null },
+				tDepth: { value: null },
+				tHistory: { value: null },
+				uvScale: { value: new THREE.Vector2(1, 1) },
+				historyUvScale: { value: new THREE.Vector2(1, 1) },
+				texelSize: { value: new THREE.Vector2(1.0 / width, 1.0 / height) },
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
+				cameraProjectionMatrixInverse: { value: new THREE.Matrix4() },
+				cameraMatrixWorld: { value: new THREE.Matrix4() },
+				previousViewProjectionMatrix: { value: new THREE.Matrix4() },
+				hasHistory: { value: false },
+				maxHistoryWeight: { value: 0.9 },
+				depthThreshold: { value: 0.05 },
+			},
+			vertexShader: postProcessVert,
+			fragmentShader: ambientOcclusionBlendFrag,
+			blending: THREE.NoBlending,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateTexelSize(width: number, height: number): void {
+		if (this.uniforms.texelSize) {
+			this.uniforms.texelSize.value.set(1.0 / width, 1.0 / height)
+		}
+	}
+
+	/**
+	 * Camera of this frame, last frame's view-projection becomes the reprojection target; call once per frame
+	 */
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
+		}
+		if (this.uniforms.cameraProjectionMatrixInverse) {
+			this.uniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse)
+		}
+		if (this.uniforms.cameraMatrixWorld) {
+			this.uniforms.cameraMatrixWorld.value.copy(camera.matrixWorld)
+		}
+		if (this.uniforms.previousViewProjectionMatrix) {
+			this.uniforms.previousViewProjectionMatrix.value.copy(this.viewProjectionMatrix)
+		}
+		this.viewProjectionMatrix.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+	}
+}
@@ -0,0 +1,62 @@
+import * as THREE from 'three'
+import postProcessVert from '../shaders/postProcess.vert.glsl?raw'
+import ambientOcclusionFrag from '../shaders/ambientOcclusion.frag.glsl?raw'
+
+export class AmbientOcclusionMaterial extends THREE.ShaderMaterial {
+	public constructor(width: number, height: number) {
+		super({
+			uniforms: {
+				tDepth: { value: null },
+				tNormal: { value: null },
+				uvScale: { value: new THREE.Vector2(1, 1) },
+				resolution: { value: new THREE.Vector2(width, height) },
+				cameraProjectionMatrix: { value: new THREE.Matrix4() },
+				cameraProjectionMatrixInverse: { value: new THREE.Matrix4() },
+				radius: { value: 0.5 },
+				intensity: { value: 1.0 },
+				samples: { value: 8 },
+				frameIndex: { value: 0 },
+			},
+			vertexShader: postProcessVert,
+			fragmentShader: ambientOcclusionFrag,
+			blending: THREE.NoBlending,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateResolution(width: number, height: number): void {
+		if (this.uniforms.resolution) {
+			this.uniforms.resolution.value.set(width, height)
+		}
+	}
+
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		// Unjittered, like the prepass
+		if (this.uniforms.cameraProjectionMatrix) {
+			this.uniforms.cameraProjectionMatrix.value.copy(camera.projectionMatrix)
+		}
+		if (this.uniforms.cameraProjectionMatrixInverse) {
+			this.uniforms.cameraProjectionMatrixInverse.value.copy(camera.projectionMatrixInverse)
+		}
+	}
+
+	public updateRadius(radius: number): void {
+		if (this.uniforms.radius) {
+			this.uniforms.radius.value = radius
+		}
+	}
+
+	public updateIntensity(intensity: number): void {
+		if (this.uniforms.intensity) {
+			this.uniforms.intensity.value = intensity
+		}
+	}
+
+	public updateSamples(samples: number): void {
+		// Horizon steps per side of each slice, capped by MAX_SAMPLES in ambientOcclusion.frag.glsl
+		if (this.uniforms.samples) {
+			this.uniforms.samples.value = Math.min(Math.max(Math.round(samples), 1), 32)
+		}
+	}
+}
@@ -0,0 +1,34 @@
+import * as THREE from 'three'
+import ambientOcclusionNormalVert from '../shaders/ambientOcclusionNormal.vert.glsl?raw'
+import ambientOcclusionNormalFrag from '../shaders/ambientOcclusionNormal.frag.glsl?raw'
+import windSwayChunk from '../shaders/chunks/windSway.glsl?raw'
+
+/**
+ * Replaces mesh materials in the ambient occlusion prepass (view-space normals, depth into the
+ * target's depth texture), one per mesh (MeshMaterialCache) for its opacity map
+ */
+export class AmbientOcclusionNormalMaterial extends THREE.ShaderMaterial {
+	public constructor() {
+		super({
+			uniforms: {
+				opacity: { value: 1.0 },
+				opacityMap: { value: null },
+				hasOpacityMap: { value: false },
+			},
+			vertexShader: windSwayChunk + '\n' + ambientOcclusionNormalVert,
+			fragmentShader: ambientOcclusionNormalFrag,
+			blending: THREE.NoBlending,
+			depthTest: true,
+			depthWrite: true,
+		})
+	}
+
+	public updateFromMesh(mesh: THREE.Mesh): void {
+		const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+		const map = material instanceof THREE.MeshPhysicalMaterial ? material.map : null
+		this.uniforms.opacity.value = material.transparent ? material.opacity : 1.0
+		this.uniforms.opacityMap.value = material.transparent ? map : null
+		this.uniforms.hasOpacityMap.value = material.transparent && map !== null
+		this.side = material.side
+	}
+}
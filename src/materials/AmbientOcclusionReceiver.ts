@@ -0,0 +1,34 @@
+import * as THREE from 'three'
+import ambientOcclusionChunk from '../shaders/chunks/ambientOcclusion.glsl?raw'
+
+export class AmbientOcclusionReceiver {
+	/**
+	 * Patches a built-in lit material so its indirect diffuse (ambient) light is multiplied by the
+	 * screen-space ambient occlusion (chunks/ambientOcclusion.glsl), after any aoMap
+	 * @param material Standard or physical material of a mesh drawn in the ambient occlusion prepass
+	 * @param uniforms Ambient occlusion uniforms, shared by reference so one update reaches every receiver
+	 */
+	public static patch(material: THREE.MeshStandardMaterial, uniforms: { [uniform: string]: THREE.IUniform }): void {
+		if (material.userData.ambientOcclusionReceiver) return
+		material.userData.ambientOcclusionReceiver = true
+
+		const previousOnBeforeCompile = material.onBeforeCompile.bind(material)
+		material.onBeforeCompile = (shader, renderer) => {
+			previousOnBeforeCompile(shader, renderer)
+			Object.assign(shader.uniforms, uniforms)
+
+			shader.fragmentShader =
+				ambientOcclusionChunk +
+				'\n' +
+				shader.fragmentShader.replace(
+					'#include <aomap_fragment>',
+					`#include <aomap_fragment>
+					reflectedLight.indirectDiffuse *= getAmbientOcclusion();`
+				)
+		}
+
+		const previousCacheKey = material.customProgramCacheKey.bind(material)
+		material.customProgramCacheKey = () => previousCacheKey() + '|ambientOcclusionReceiver'
+		material.needsUpdate = true
+	}
+}
@@ -0,0 +1,37 @@
+import * as THREE from 'three'
+import postProcessVert from '../shaders/postProcess.vert.glsl?raw'
+import bloomDownsampleFrag from '../shaders/bloomDownsample.frag.glsl?raw'
+
+export class BloomDownsampleMaterial extends THREE.ShaderMaterial {
+	public constructor() {
+		super({
+			uniforms: {
+				tInput: { value: null },
+				texelSize: { value: new THREE.Vector2(1, 1) }, // Of the source level
+				prefilter: { value: false }, // First level only
+				threshold: { value: 1.0 },
+				knee: { value: 0.5 },
+			},
+			vertexShader: postProcessVert,
+			fragmentShader: bloomDownsampleFrag,
+			blending: THREE.NoBlending,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateSource(texture: THREE.Texture, width: number, height: number, prefilter: boolean): void {
+		this.uniforms.tInput.value = texture
+		this.uniforms.texelSize.value.set(1.0 / width, 1.0 / height)
+		this.uniforms.prefilter.value = prefilter
+	}
+
+	public updateThreshold(threshold: number, knee: number): void {
+		if (this.uniforms.threshold) {
+			this.uniforms.threshold.value = threshold
+		}
+		if (this.uniforms.knee) {
+			this.uniforms.knee.value = knee
+		}
+	}
+}
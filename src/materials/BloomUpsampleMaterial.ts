@@ -0,0 +1,33 @@
+import * as THREE from 'three'
+import postProcessVert from '../shaders/postProcess.vert.glsl?raw'
+import bloomUpsampleFrag from '../shaders/bloomUpsample.frag.glsl?raw'
+
+export class BloomUpsampleMaterial extends THREE.ShaderMaterial {
+	public constructor() {
+		super({
+			uniforms: {
+				tInput: { value: null }, // This level's downsample
+				tLower: { value: null }, // Next smaller level
+				texelSize: { value: new THREE.Vector2(1, 1) }, // Of the smaller level
+				radius: { value: 0.7 },
+			},
+			vertexShader: postProcessVert,
+			fragmentShader: bloomUpsampleFrag,
+			blending: THREE.NoBlending,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateSources(current: THREE.Texture, lower: THREE.Texture, lowerWidth: number, lowerHeight: number): void {
+		this.uniforms.tInput.value = current
+		this.uniforms.tLower.value = lower
+		this.uniforms.texelSize.value.set(1.0 / lowerWidth, 1.0 / lowerHeight)
+	}
+
+	public updateRadius(radius: number): void {
+		if (this.uniforms.radius) {
+			this.uniforms.radius.value = radius
+		}
+	}
+}
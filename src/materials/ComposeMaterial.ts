@@ -2,23 +2,35 @@ import * as THREE from 'three'
 import composeVert from '../shaders/compose.vert.glsl?raw'
 import composeFrag from '../shaders/compose.frag.glsl?raw'
 
+export type FogCompositeMode = 'additive' | 'transmittance'
+
+// Must match FOG_COMPOSITE_* in compose.frag.glsl
+const FOG_COMPOSITE_MODE_IDS: Record<FogCompositeMode, number> = {
+	additive: 0,
+	transmittance: 1,
+}
+
 export class ComposeMaterial extends THREE.ShaderMaterial {
 	public constructor(width: number, height: number) {
 		super({
 			uniforms: {
 				tColor: { value: null },
 				tFog: { value: null },
+				tFogTransmittance: { value: null }, // Per-channel fog transmittance (transmittance composite)
+				tDepth: { value: null }, // Full resolution scene depth
+				tFogDepth: { value: null }, // Downsampled depth the fog was rendered with
 				backgroundColor: { value: new THREE.Vector3(0.1, 0.1, 0.15) }, // Dark blue-gray background
 				texelSize: { value: new THREE.Vector2(1.0 / width, 1.0 / height) },
 				fogBlurRadius: { value: 2.0 }, // Blur radius for fog (0 = no blur)
-				// Vignette
-				vignetteIntensity: { value: 0.61 },
-				vignetteRadius: { value: 0.85 },
-				// Color correction
-				exposure: { value: 1.46 },
-				contrast: { value: 1.11 },
-				saturation: { value: 0.65 },
-				brightness: { value: 1.07 },
+				// Dynamic resolution sub-viewports of the inputs
+				colorUvScale: { value: new THREE.Vector2(1, 1) },
+				depthUvScale: { value: new THREE.Vector2(1, 1) },
+				fogUvScale: { value: new THREE.Vector2(1, 1) },
+				fogTexelSize: { value: new THREE.Vector2(1.0 / width, 1.0 / height) },
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
+				depthAwareUpsample: { value: true }, // Bilateral / nearest-depth fog upsampling
+				upsampleDepthThreshold: { value: 0.1 }, // Relative depth difference treated as an edge
+				fogCompositeMode: { value: FOG_COMPOSITE_MODE_IDS.additive },
 			},
 			vertexShader: composeVert,
 			fragmentShader: composeFrag,
@@ -33,50 +45,42 @@ export class ComposeMaterial extends THREE.ShaderMaterial {
 		}
 	}
 
-	public setFogBlurRadius(value: number): void {
-		if (this.uniforms.fogBlurRadius) {
-			this.uniforms.fogBlurRadius.value = value
+	public updateFogResolution(width: number, height: number): void {
+		if (this.uniforms.fogTexelSize) {
+			this.uniforms.fogTexelSize.value.set(1.0 / width, 1.0 / height)
 		}
 	}
 
-	public getFogBlurRadius(): number {
-		return this.uniforms.fogBlurRadius?.value ?? 0.0
-	}
-
-	public setVignetteIntensity(value: number): void {
-		if (this.uniforms.vignetteIntensity) {
-			this.uniforms.vignetteIntensity.value = value
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
 		}
 	}
 
-	public setVignetteRadius(value: number): void {
-		if (this.uniforms.vignetteRadius) {
-			this.uniforms.vignetteRadius.value = value
+	public setDepthAwareUpsample(value: boolean): void {
+		if (this.uniforms.depthAwareUpsample) {
+			this.uniforms.depthAwareUpsample.value = value
 		}
 	}
 
-	public setExposure(value: number): void {
-		if (this.uniforms.exposure) {
-			this.uniforms.exposure.value = value
-		}
+	public getDepthAwareUpsample(): boolean {
+		return this.uniforms.depthAwareUpsample?.value ?? false
 	}
 
-	public setContrast(value: number): void {
-		if (this.uniforms.contrast) {
-			this.uniforms.contrast.value = value
+	public setFogCompositeMode(mode: FogCompositeMode): void {
+		if (this.uniforms.fogCompositeMode) {
+			this.uniforms.fogCompositeMode.value = FOG_COMPOSITE_MODE_IDS[mode]
 		}
 	}
 
-	public setSaturation(value: number): void {
-		if (this.uniforms.saturation) {
-			this.uniforms.saturation.value = value
+	public setFogBlurRadius(value: number): void {
+		if (this.uniforms.fogBlurRadius) {
+			this.uniforms.fogBlurRadius.value = value
 		}
 	}
 
-	public setBrightness(value: number): void {
-		if (this.uniforms.brightness) {
-			this.uniforms.brightness.value = value
-		}
+	public getFogBlurRadius(): number {
+		return this.uniforms.fogBlurRadius?.value ?? 0.0
 	}
 }
 
@@ -0,0 +1,102 @@
+import * as THREE from 'three'
+import debugViewVert from '../shaders/debugView.vert.glsl?raw'
+import debugViewFrag from '../shaders/debugView.frag.glsl?raw'
+import ditherPatternChunk from '../shaders/chunks/ditherPattern.glsl?raw'
+
+// Intermediate buffer shown instead of (or next to) the final image
+export type DebugView =
+	| 'final'
+	| 'depth'
+	| 'ditherMask'
+	| 'fogCurrent'
+	| 'fogHistory'
+	| 'fogAlpha'
+	| 'velocity'
+	| 'fogShadow'
+	| 'ambientOcclusion'
+
+export type DebugViewLayout = 'fullscreen' | 'split' | 'pictureInPicture'
+
+export const DEBUG_VIEWS: DebugView[] = [
+	'final',
+	'depth',
+	'ditherMask',
+	'fogCurrent',
+	'fogHistory',
+	'fogAlpha',
+	'velocity',
+	'fogShadow',
+	'ambientOcclusion',
+]
+
+export const DEBUG_VIEW_LAYOUTS: DebugViewLayout[] = ['fullscreen', 'split', 'pictureInPicture']
+
+// Must match DEBUG_VIEW_* in debugView.frag.glsl ('final' is not drawn by this material)
+const DEBUG_VIEW_IDS: Record<DebugView, number> = {
+	final: 0,
+	depth: 1,
+	ditherMask: 2,
+	fogCurrent: 3,
+	fogHistory: 4,
+	fogAlpha: 5,
+	velocity: 6,
+	fogShadow: 7,
+	ambientOcclusion: 8,
+}
+
+/**
+ * Draws an intermediate buffer (see DebugView) over the final image
+ */
+export class DebugViewMaterial extends THREE.ShaderMaterial {
+	public constructor(
+		renderWidth: number,
+		renderHeight: number
+	) {
+		super({
+			uniforms: {
+				tInput: { value: null },
+				inputUvScale: { value: new THREE.Vector2(1, 1) },
+				debugView: { value: DEBUG_VIEW_IDS.depth },
+				jitterIndex: { value: 0 },
+				resolution: { value: new THREE.Vector2(renderWidth, renderHeight) },
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
+				depthRange: { value: 10.0 },
+				velocityScale: { value: 50.0 },
+			},
+			vertexShader: debugViewVert,
+			fragmentShader: ditherPatternChunk + '\n' + debugViewFrag,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateResolution(width: number, height: number): void {
+		if (this.uniforms.resolution) {
+			this.uniforms.resolution.value.set(width, height)
+		}
+	}
+
+	public updateJitterIndex(index: number): void {
+		if (this.uniforms.jitterIndex) {
+			this.uniforms.jitterIndex.value = index
+		}
+	}
+
+	public updateView(view: DebugView, input: THREE.Texture | null, uvScale: THREE.Vector2): void {
+		this.uniforms.debugView.value = DEBUG_VIEW_IDS[view]
+		this.uniforms.tInput.value = input
+		this.uniforms.inputUvScale.value.copy(uvScale)
+	}
+
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
+		}
+	}
+
+	public updateDepthRange(range: number): void {
+		if (this.uniforms.depthRange) {
+			this.uniforms.depthRange.value = range
+		}
+	}
+}
@@ -1,21 +1,50 @@
 import * as THREE from 'three'
-import taaBlendSimpleVert from '../shaders/taaBlendSimple.vert.glsl?raw'
-import taaBlendSimpleFrag from '../shaders/taaBlendSimple.frag.glsl?raw'
+import fogBlendVert from '../shaders/fogBlend.vert.glsl?raw'
+import fogBlendFrag from '../shaders/fogBlend.frag.glsl?raw'
+import fogInterleaveChunk from '../shaders/chunks/fogInterleave.glsl?raw'
 
 export class FogBlendMaterial extends THREE.ShaderMaterial {
 	public constructor() {
-		// Simple fog blending - blend history and current frame
+		// Fog blending - blend current frame with motion-reprojected history
 		super({
 			uniforms: {
 				tCurrent: { value: null },
 				tHistory: { value: null },
+				// Per-channel transmittance (second attachment of the fog targets)
+				tCurrentTransmittance: { value: null },
+				tHistoryTransmittance: { value: null },
+				tVelocity: { value: null },
+				tHistoryDepth: { value: null },
 				blendFactor: { value: 0.9 }, // 0.7 = mostly history, 0.3 = mostly current
+				depthThreshold: { value: 0.1 }, // Relative depth error before history is rejected
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
+				hasHistory: { value: true },
+				// Dynamic resolution sub-viewports (this frame / history frame)
+				currentUvScale: { value: new THREE.Vector2(1, 1) },
+				historyUvScale: { value: new THREE.Vector2(1, 1) },
+				// Interleaved rendering (chunks/fogInterleave.glsl), must match the fog pass
+				interleaveFactor: { value: 1 },
+				interleavePhase: { value: 0 },
 			},
-			vertexShader: taaBlendSimpleVert,
-			fragmentShader: taaBlendSimpleFrag,
+			vertexShader: fogBlendVert,
+			fragmentShader: fogInterleaveChunk + '\n' + fogBlendFrag,
 			transparent: true,
 			depthWrite: false,
 		})
 	}
-}
 
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
+		}
+	}
+
+	public updateInterleave(factor: number, phase: number): void {
+		if (this.uniforms.interleaveFactor) {
+			this.uniforms.interleaveFactor.value = factor
+		}
+		if (this.uniforms.interleavePhase) {
+			this.uniforms.interleavePhase.value = phase
+		}
+	}
+}
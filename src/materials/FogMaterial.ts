@@ -1,6 +1,57 @@
 import * as THREE from 'three'
 import fogVert from '../shaders/fog.vert.glsl?raw'
 import fogFrag from '../shaders/fog.frag.glsl?raw'
+import fogDensityChunk from '../shaders/chunks/fogDensity.glsl?raw'
+import fogShadowChunk from '../shaders/chunks/fogShadow.glsl?raw'
+import fogInterleaveChunk from '../shaders/chunks/fogInterleave.glsl?raw'
+import { FogVolume, FogVolumeShape } from '../volumes/FogVolume'
+import { WindField } from '../wind/WindField'
+
+// Maximum number of fog volumes included in the ray-march (uniform array size)
+export const MAX_FOG_VOLUMES = 8
+
+// Maximum number of point / spot lights scattering in the fog
+// (must match the unrolled loop bound in fog.frag.glsl)
+export const MAX_FOG_LOCAL_LIGHTS = 4
+
+// Must match LOCAL_LIGHT_SHADOW_* in fog.frag.glsl
+const LOCAL_LIGHT_SHADOW_NONE = 0
+const LOCAL_LIGHT_SHADOW_SPOT = 1
+const LOCAL_LIGHT_SHADOW_POINT = 2
+
+export type FogPhaseModel = 'henyeyGreenstein' | 'dualLobe' | 'rayleigh' | 'cornetteShanks'
+
+// Must match PHASE_* in fog.frag.glsl
+const FOG_PHASE_MODEL_IDS: Record<FogPhaseModel, number> = {
+	henyeyGreenstein: 0,
+	dualLobe: 1,
+	rayleigh: 2,
+	cornetteShanks: 3,
+}
+
+// Must match FOG_SHAPE_* in chunks/fogDensity.glsl
+const FOG_VOLUME_SHAPE_IDS: Record<FogVolumeShape, number> = {
+	box: 0,
+	ellipsoid: 1,
+	heightLayer: 2,
+}
+
+// Uniforms read by chunks/fogDensity.glsl, shared by reference with the other density passes
+const FOG_DENSITY_UNIFORMS = [
+	'fogDensity',
+	'time',
+	'animSpeed',
+	'tNoise',
+	'tCurlNoise',
+	'useBakedNoise',
+	'windOffset',
+	'windTurbulence',
+	'fogVolumeCount',
+	'fogVolumeShapes',
+	'fogVolumeWorldToLocal',
+	'fogVolumeParams',
+	'fogVolumeAlbedo',
+]
 
 export class FogMaterial extends THREE.ShaderMaterial {
 	public constructor(width: number, height: number, camera: THREE.PerspectiveCamera) {
@@ -9,6 +60,8 @@ export class FogMaterial extends THREE.ShaderMaterial {
 				DEPTH_PACKING: 1,
 				PERSPECTIVE_CAMERA: 1,
 				USE_SHADOWMAP: 1,
+				MAX_FOG_VOLUMES: MAX_FOG_VOLUMES,
+				MAX_FOG_LOCAL_LIGHTS: MAX_FOG_LOCAL_LIGHTS,
 			},
 			uniforms: {
 				tDepth: { value: null },
@@ -23,11 +76,27 @@ export class FogMaterial extends THREE.ShaderMaterial {
 				cameraFar: { value: camera.far },
 				cameraPosition: { value: camera.position.clone() },
 				resolution: { value: new THREE.Vector2(width, height) },
-				fogColor: { value: new THREE.Vector3(0.8, 0.8, 0.9) },
+				depthUvScale: { value: new THREE.Vector2(1, 1) }, // Dynamic resolution sub-viewport of tDepth
 				fogDensity: { value: 0.5 },
 				maxFogDistance: { value: 9.0 },
-				fogSphereCenter: { value: new THREE.Vector3(0, 1, 0) }, // Sphere center
-				fogSphereRadius: { value: 3.5 }, // Sphere radius
+				// Fog volumes, filled by updateVolumes()
+				fogVolumeCount: { value: 0 },
+				fogVolumeShapes: { value: new Array<number>(MAX_FOG_VOLUMES).fill(0) },
+				fogVolumeWorldToLocal: { value: Array.from({ length: MAX_FOG_VOLUMES }, () => new THREE.Matrix4()) },
+				fogVolumeParams: { value: Array.from({ length: MAX_FOG_VOLUMES }, () => new THREE.Vector4()) },
+				fogVolumeAlbedo: { value: Array.from({ length: MAX_FOG_VOLUMES }, () => new THREE.Color()) },
+				// Local point / spot lights, filled by updateLocalLights()
+				fogLocalLightCount: { value: 0 },
+				fogLocalLightPosition: { value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Vector4()) },
+				fogLocalLightColor: { value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Vector4()) },
+				fogLocalLightSpot: { value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Vector4()) },
+				fogLocalLightPenumbraCos: { value: new Array<number>(MAX_FOG_LOCAL_LIGHTS).fill(0) },
+				fogLocalLightShadowParams: { value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Vector4()) },
+				fogLocalLightShadowMapParams: {
+					value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Vector4()),
+				},
+				fogLocalLightShadowMatrix: { value: Array.from({ length: MAX_FOG_LOCAL_LIGHTS }, () => new THREE.Matrix4()) },
+				fogLocalLightShadowMap: { value: new Array<THREE.Texture | null>(MAX_FOG_LOCAL_LIGHTS).fill(null) },
 				time: { value: 0.0 },
 				animSpeed: { value: 0.4 }, // Animation speed (warp speed)
 				lightDirection: { value: new THREE.Vector3(0, -1, 0) }, // normalized direction FROM light TO scene
@@ -41,10 +110,43 @@ export class FogMaterial extends THREE.ShaderMaterial {
 				shadowBias: { value: 0.0 },
 				shadowRadius: { value: 1.0 },
 				fogSteps: { value: 55.0 },
-				rayNoiseScale: { value: 0.012 },
+				// Ray start jitter
+				tBlueNoise: { value: null },
+				jitterOffset: { value: 0.5 },
+				// Baked noise textures, procedural noise is used until they are provided
+				tNoise: { value: null },
+				tCurlNoise: { value: null },
+				useBakedNoise: { value: false },
+				// Wind advection
+				windOffset: { value: new THREE.Vector3() },
+				windTurbulence: { value: 0.4 },
+				// Scattering model
+				phaseModel: { value: FOG_PHASE_MODEL_IDS.henyeyGreenstein },
+				phaseG: { value: 0.1 }, // Slightly forward scattering, close to isotropic
+				phaseG2: { value: -0.3 }, // Back-scattering second lobe (dual-lobe only)
+				phaseLobeBlend: { value: 0.7 }, // Weight of the first lobe (dual-lobe only)
+				scatteringCoefficient: { value: new THREE.Vector3(1, 1, 1) },
+				absorptionCoefficient: { value: new THREE.Vector3(0, 0, 0) },
+				// Adaptive stepping and early termination
+				stepDistanceScale: { value: 0.04 },
+				minTransmittance: { value: 0.01 },
+				// Empty-space skipping, filled by updateOccupancy()
+				tOccupancy: { value: null },
+				occupancyBoundsMin: { value: new THREE.Vector3() },
+				occupancyBoundsMax: { value: new THREE.Vector3() },
+				useOccupancy: { value: false },
+				emptySpaceThreshold: { value: 0.01 },
+				showStepHeatmap: { value: false },
+				// Fog transmittance towards the light, filled by updateFogShadow()
+				tFogShadow: { value: null },
+				fogShadowMatrix: { value: new THREE.Matrix4() },
+				useFogShadow: { value: false },
+				// Interleaved rendering (chunks/fogInterleave.glsl)
+				interleaveFactor: { value: 1 },
+				interleavePhase: { value: 0 },
 			},
 			vertexShader: fogVert,
-			fragmentShader: fogFrag,
+			fragmentShader: [fogDensityChunk, fogShadowChunk, fogInterleaveChunk, fogFrag].join('\n'),
 			transparent: true,
 			depthWrite: false,
 		})
@@ -142,6 +244,201 @@ export class FogMaterial extends THREE.ShaderMaterial {
 		}
 	}
 
+	public updateLocalLights(lights: readonly (THREE.PointLight | THREE.SpotLight)[]): void {
+		const count = Math.min(lights.length, MAX_FOG_LOCAL_LIGHTS)
+		const lightPosition = new THREE.Vector3()
+		const targetPosition = new THREE.Vector3()
+
+		for (let i = 0; i < count; i++) {
+			const light = lights[i]
+			light.updateMatrixWorld()
+			light.getWorldPosition(lightPosition)
+
+			this.uniforms.fogLocalLightPosition.value[i].set(
+				lightPosition.x,
+				lightPosition.y,
+				lightPosition.z,
+				light.distance
+			)
+			this.uniforms.fogLocalLightColor.value[i].set(
+				light.color.r * light.intensity,
+				light.color.g * light.intensity,
+				light.color.b * light.intensity,
+				light.decay
+			)
+
+			if (light instanceof THREE.SpotLight) {
+				// Spot direction points FROM light TO its target
+				light.target.updateMatrixWorld()
+				light.target.getWorldPosition(targetPosition)
+				const direction = targetPosition.sub(lightPosition).normalize()
+				this.uniforms.fogLocalLightSpot.value[i].set(direction.x, direction.y, direction.z, Math.cos(light.angle))
+				this.uniforms.fogLocalLightPenumbraCos.value[i] = Math.cos(light.angle * (1 - light.penumbra))
+			} else {
+				// Cone wider than any angle: the smoothstep in the shader always yields 1
+				this.uniforms.fogLocalLightSpot.value[i].set(0, -1, 0, -2)
+				this.uniforms.fogLocalLightPenumbraCos.value[i] = -1
+			}
+
+			// Shadow map is only available once the renderer has drawn it
+			const shadow = light.shadow
+			const hasShadow = light.castShadow && shadow.map !== null
+			const shadowType = !hasShadow
+				? LOCAL_LIGHT_SHADOW_NONE
+				: light instanceof THREE.SpotLight
+					? LOCAL_LIGHT_SHADOW_SPOT
+					: LOCAL_LIGHT_SHADOW_POINT
+			this.uniforms.fogLocalLightShadowParams.value[i].set(
+				shadowType,
+				shadow.bias,
+				shadow.camera.near,
+				shadow.camera.far
+			)
+			this.uniforms.fogLocalLightShadowMapParams.value[i].set(
+				shadow.mapSize.width,
+				shadow.mapSize.height,
+				shadow.intensity,
+				shadow.radius
+			)
+			this.uniforms.fogLocalLightShadowMatrix.value[i].copy(shadow.matrix)
+			this.uniforms.fogLocalLightShadowMap.value[i] = hasShadow ? shadow.map!.texture : null
+		}
+
+		this.uniforms.fogLocalLightCount.value = count
+	}
+
+	public updateVolumes(volumes: readonly FogVolume[]): void {
+		const count = Math.min(volumes.length, MAX_FOG_VOLUMES)
+
+		for (let i = 0; i < count; i++) {
+			const volume = volumes[i]
+			// Volumes may be moved every frame, keep their world transform current
+			volume.updateMatrixWorld()
+
+			this.uniforms.fogVolumeShapes.value[i] = FOG_VOLUME_SHAPE_IDS[volume.shape]
+			this.uniforms.fogVolumeWorldToLocal.value[i].copy(volume.matrixWorld).invert()
+			this.uniforms.fogVolumeParams.value[i].set(
+				volume.density,
+				volume.noiseScale,
+				volume.noiseStrength,
+				volume.heightFalloff
+			)
+			this.uniforms.fogVolumeAlbedo.value[i].copy(volume.albedo)
+		}
+
+		this.uniforms.fogVolumeCount.value = count
+	}
+
+	public setPhaseModel(model: FogPhaseModel): void {
+		if (this.uniforms.phaseModel) {
+			this.uniforms.phaseModel.value = FOG_PHASE_MODEL_IDS[model]
+		}
+	}
+
+	public setScatteringCoefficient(r: number, g: number, b: number): void {
+		if (this.uniforms.scatteringCoefficient) {
+			this.uniforms.scatteringCoefficient.value.set(r, g, b)
+		}
+	}
+
+	public setAbsorptionCoefficient(r: number, g: number, b: number): void {
+		if (this.uniforms.absorptionCoefficient) {
+			this.uniforms.absorptionCoefficient.value.set(r, g, b)
+		}
+	}
+
+	public setNoiseTextures(noise: THREE.Data3DTexture, curlNoise: THREE.Data3DTexture): void {
+		if (this.uniforms.tNoise && this.uniforms.tCurlNoise) {
+			this.uniforms.tNoise.value = noise
+			this.uniforms.tCurlNoise.value = curlNoise
+		}
+	}
+
+	public setBakedNoiseEnabled(enabled: boolean): void {
+		if (this.uniforms.useBakedNoise) {
+			// Fall back to procedural noise while no textures are bound
+			this.uniforms.useBakedNoise.value = enabled && this.uniforms.tNoise.value !== null
+		}
+	}
+
+	public setBlueNoiseTexture(texture: THREE.Texture): void {
+		if (this.uniforms.tBlueNoise) {
+			this.uniforms.tBlueNoise.value = texture
+		}
+	}
+
+	public updateJitterOffset(offset: number): void {
+		if (this.uniforms.jitterOffset) {
+			this.uniforms.jitterOffset.value = offset
+		}
+	}
+
+	public updateInterleave(factor: number, phase: number): void {
+		if (this.uniforms.interleaveFactor) {
+			this.uniforms.interleaveFactor.value = factor
+		}
+		if (this.uniforms.interleavePhase) {
+			this.uniforms.interleavePhase.value = phase
+		}
+	}
+
+	public updateWind(wind: WindField): void {
+		if (this.uniforms.windOffset) {
+			this.uniforms.windOffset.value.copy(wind.getOffset())
+		}
+		if (this.uniforms.windTurbulence) {
+			this.uniforms.windTurbulence.value = wind.turbulence
+		}
+	}
+
+	/**
+	 * Uniforms used by the shared density function, to be spread into other materials
+	 * that include chunks/fogDensity.glsl so they always see the same medium
+	 */
+	public getDensityUniforms(): { [uniform: string]: THREE.IUniform } {
+		const uniforms: { [uniform: string]: THREE.IUniform } = {}
+		for (const name of FOG_DENSITY_UNIFORMS) {
+			uniforms[name] = this.uniforms[name]
+		}
+		return uniforms
+	}
+
+	/**
+	 * Uniforms read by chunks/fogShadow.glsl, shared by reference with shadow-receiving scene materials
+	 */
+	public getFogShadowUniforms(): { [uniform: string]: THREE.IUniform } {
+		return {
+			tFogShadow: this.uniforms.tFogShadow,
+			fogShadowMatrix: this.uniforms.fogShadowMatrix,
+			useFogShadow: this.uniforms.useFogShadow,
+		}
+	}
+
+	public updateFogShadow(texture: THREE.Texture | null, fogShadowMatrix: THREE.Matrix4 | null): void {
+		if (this.uniforms.useFogShadow) {
+			this.uniforms.useFogShadow.value = texture !== null && fogShadowMatrix !== null
+		}
+		if (this.uniforms.tFogShadow) {
+			this.uniforms.tFogShadow.value = texture
+		}
+		if (fogShadowMatrix && this.uniforms.fogShadowMatrix) {
+			this.uniforms.fogShadowMatrix.value.copy(fogShadowMatrix)
+		}
+	}
+
+	public updateOccupancy(texture: THREE.Texture | null, bounds: THREE.Box3 | null): void {
+		if (this.uniforms.useOccupancy) {
+			this.uniforms.useOccupancy.value = texture !== null && bounds !== null && !bounds.isEmpty()
+		}
+		if (this.uniforms.tOccupancy) {
+			this.uniforms.tOccupancy.value = texture
+		}
+		if (bounds && this.uniforms.occupancyBoundsMin && this.uniforms.occupancyBoundsMax) {
+			this.uniforms.occupancyBoundsMin.value.copy(bounds.min)
+			this.uniforms.occupancyBoundsMax.value.copy(bounds.max)
+		}
+	}
+
 	public updateTime(time: number): void {
 		if (this.uniforms.time) {
 			this.uniforms.time.value = time
@@ -0,0 +1,41 @@
+import * as THREE from 'three'
+import fogOccupancyVert from '../shaders/fogOccupancy.vert.glsl?raw'
+import fogOccupancyFrag from '../shaders/fogOccupancy.frag.glsl?raw'
+import fogDensityChunk from '../shaders/chunks/fogDensity.glsl?raw'
+import { FogMaterial, MAX_FOG_VOLUMES } from './FogMaterial'
+
+export class FogOccupancyMaterial extends THREE.ShaderMaterial {
+	public constructor(fogMaterial: FogMaterial, gridSize: number) {
+		// Coarse max-density grid for empty-space skipping, rendered slice by slice into a 3D target
+		super({
+			defines: {
+				MAX_FOG_VOLUMES: MAX_FOG_VOLUMES,
+			},
+			uniforms: {
+				// Same uniform objects as the fog pass, so the grid always matches the marched medium
+				...fogMaterial.getDensityUniforms(),
+				occupancyBoundsMin: { value: new THREE.Vector3() },
+				occupancyBoundsMax: { value: new THREE.Vector3() },
+				occupancyGridSize: { value: new THREE.Vector3(gridSize, gridSize, gridSize) },
+				occupancySlice: { value: 0 },
+			},
+			vertexShader: fogOccupancyVert,
+			fragmentShader: fogDensityChunk + '\n' + fogOccupancyFrag,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateBounds(bounds: THREE.Box3): void {
+		if (this.uniforms.occupancyBoundsMin && this.uniforms.occupancyBoundsMax) {
+			this.uniforms.occupancyBoundsMin.value.copy(bounds.min)
+			this.uniforms.occupancyBoundsMax.value.copy(bounds.max)
+		}
+	}
+
+	public updateSlice(slice: number): void {
+		if (this.uniforms.occupancySlice) {
+			this.uniforms.occupancySlice.value = slice
+		}
+	}
+}
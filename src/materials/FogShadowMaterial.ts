@@ -0,0 +1,33 @@
+import * as THREE from 'three'
+import fogShadowVert from '../shaders/fogShadow.vert.glsl?raw'
+import fogShadowFrag from '../shaders/fogShadow.frag.glsl?raw'
+import fogDensityChunk from '../shaders/chunks/fogDensity.glsl?raw'
+import { FogMaterial, MAX_FOG_VOLUMES } from './FogMaterial'
+
+export class FogShadowMaterial extends THREE.ShaderMaterial {
+	public constructor(fogMaterial: FogMaterial) {
+		// Light-space fog optical depth, rendered with the fog light camera
+		super({
+			defines: {
+				MAX_FOG_VOLUMES: MAX_FOG_VOLUMES,
+			},
+			uniforms: {
+				// Same uniform objects as the fog pass, so the shadow always matches the marched medium
+				...fogMaterial.getDensityUniforms(),
+				scatteringCoefficient: fogMaterial.uniforms.scatteringCoefficient,
+				absorptionCoefficient: fogMaterial.uniforms.absorptionCoefficient,
+				fogShadowMatrixInverse: { value: new THREE.Matrix4() },
+			},
+			vertexShader: fogShadowVert,
+			fragmentShader: fogDensityChunk + '\n' + fogShadowFrag,
+			depthTest: false,
+			depthWrite: false,
+		})
+	}
+
+	public updateShadowMatrix(fogShadowMatrix: THREE.Matrix4): void {
+		if (this.uniforms.fogShadowMatrixInverse) {
+			this.uniforms.fogShadowMatrixInverse.value.copy(fogShadowMatrix).invert()
+		}
+	}
+}
@@ -0,0 +1,47 @@
+import * as THREE from 'three'
+import fogShadowChunk from '../shaders/chunks/fogShadow.glsl?raw'
+
+export class FogShadowReceiver {
+	/**
+	 * Patches a built-in lit material so directional light reaching the surface is attenuated
+	 * by the fog transmittance map (chunks/fogShadow.glsl)
+	 * @param material Standard or physical material of a shadow-receiving mesh
+	 * @param uniforms Fog shadow uniforms, shared by reference so one update reaches every receiver
+	 */
+	public static patch(material: THREE.MeshStandardMaterial, uniforms: { [uniform: string]: THREE.IUniform }): void {
+		if (material.userData.fogShadowReceiver) return
+		material.userData.fogShadowReceiver = true
+
+		const previousOnBeforeCompile = material.onBeforeCompile.bind(material)
+		material.onBeforeCompile = (shader, renderer) => {
+			previousOnBeforeCompile(shader, renderer)
+			Object.assign(shader.uniforms, uniforms)
+
+			shader.vertexShader = 'varying vec3 vFogShadowWorldPosition;\n' + shader.vertexShader.replace(
+				'#include <project_vertex>',
+				`#include <project_vertex>
+				vec4 fogShadowWorldPosition = vec4( transformed, 1.0 );
+				#ifdef USE_INSTANCING
+					fogShadowWorldPosition = instanceMatrix * fogShadowWorldPosition;
+				#endif
+				vFogShadowWorldPosition = ( modelMatrix * fogShadowWorldPosition ).xyz;`
+			)
+
+			// The scene has a single directional light (the one the fog shadow map is built for)
+			const lightsFragment = THREE.ShaderChunk.lights_fragment_begin.replace(
+				'getDirectionalLightInfo( directionalLight, directLight );',
+				`getDirectionalLightInfo( directionalLight, directLight );
+				directLight.color *= getFogShadowTransmittance( vFogShadowWorldPosition );`
+			)
+			shader.fragmentShader =
+				'varying vec3 vFogShadowWorldPosition;\n' +
+				fogShadowChunk +
+				'\n' +
+				shader.fragmentShader.replace('#include <lights_fragment_begin>', lightsFragment)
+		}
+
+		const previousCacheKey = material.customProgramCacheKey.bind(material)
+		material.customProgramCacheKey = () => previousCacheKey() + '|fogShadowReceiver'
+		material.needsUpdate = true
+	}
+}
@@ -0,0 +1,53 @@
+import * as THREE from 'three'
+import objectVelocityVert from '../shaders/objectVelocity.vert.glsl?raw'
+import objectVelocityFrag from '../shaders/objectVelocity.frag.glsl?raw'
+import windSwayChunk from '../shaders/chunks/windSway.glsl?raw'
+import { TAAVelocityMaterial } from './TAAVelocityMaterial'
+
+/**
+ * Replaces mesh materials in the velocity pass, one per mesh (MeshMaterialCache) for its previous model matrix.
+ * InstancedMesh geometries need the previousInstanceMatrix attribute (see ObjectMotionHistory).
+ */
+export class ObjectVelocityMaterial extends THREE.ShaderMaterial {
+	public constructor() {
+		super({
+			uniforms: {
+				previousModelMatrix: { value: new THREE.Matrix4() },
+				previousViewMatrix: { value: new THREE.Matrix4() },
+				previousProjectionMatrix: { value: new THREE.Matrix4() },
+				currentJitter: { value: new THREE.Vector2(0, 0) },
+				previousJitter: { value: new THREE.Vector2(0, 0) },
+				opacity: { value: 1.0 },
+				opacityMap: { value: null },
+				hasOpacityMap: { value: false },
+			},
+			vertexShader: windSwayChunk + '\n' + objectVelocityVert,
+			fragmentShader: objectVelocityFrag,
+			blending: THREE.NoBlending,
+			depthTest: true,
+			depthWrite: true,
+		})
+	}
+
+	/**
+	 * Last frame's camera from the camera velocity reconstruction, which has already advanced this frame.
+	 * The objects are drawn with the unjittered projection.
+	 */
+	public updateCameraHistory(cameraVelocity: TAAVelocityMaterial): void {
+		this.uniforms.previousViewMatrix.value.copy(cameraVelocity.uniforms.previousViewMatrix.value)
+		this.uniforms.previousProjectionMatrix.value.copy(cameraVelocity.uniforms.previousProjectionMatrix.value)
+		this.uniforms.previousJitter.value.copy(cameraVelocity.uniforms.previousJitter.value)
+		this.uniforms.currentJitter.value.set(0, 0)
+	}
+
+	public updateFromMesh(mesh: THREE.Mesh, previousModelMatrix: THREE.Matrix4): void {
+		this.uniforms.previousModelMatrix.value.copy(previousModelMatrix)
+
+		const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material
+		const map = material instanceof THREE.MeshPhysicalMaterial ? material.map : null
+		this.uniforms.opacity.value = material.transparent ? material.opacity : 1.0
+		this.uniforms.opacityMap.value = material.transparent ? map : null
+		this.uniforms.hasOpacityMap.value = material.transparent && map !== null
+		this.side = material.side
+	}
+}
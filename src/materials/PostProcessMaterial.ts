@@ -0,0 +1,48 @@
+import * as THREE from 'three'
+import postProcessVert from '../shaders/postProcess.vert.glsl?raw'
+
+/**
+ * Fullscreen material for post-process passes.
+ * The fragment shader samples the previous pass from tInput (straight color and alpha); tDepth,
+ * depthUvScale, texelSize and cameraNearFar are filled in as well for effects that declare them.
+ */
+export class PostProcessMaterial extends THREE.ShaderMaterial {
+	public constructor(fragmentShader: string, uniforms: { [uniform: string]: THREE.IUniform } = {}) {
+		super({
+			uniforms: {
+				tInput: { value: null },
+				tDepth: { value: null }, // Full resolution scene depth
+				depthUvScale: { value: new THREE.Vector2(1, 1) }, // Drawn part of tDepth (dynamic resolution)
+				texelSize: { value: new THREE.Vector2(1, 1) },
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
+				...uniforms,
+			},
+			vertexShader: postProcessVert,
+			fragmentShader,
+			transparent: true,
+			depthWrite: false,
+		})
+	}
+
+	public updateResolution(width: number, height: number): void {
+		if (this.uniforms.texelSize) {
+			this.uniforms.texelSize.value.set(1.0 / width, 1.0 / height)
+		}
+	}
+
+	public updateInputs(input: THREE.Texture, depth: THREE.Texture | null, depthUvScale: THREE.Vector2): void {
+		this.uniforms.tInput.value = input
+		if (this.uniforms.tDepth) {
+			this.uniforms.tDepth.value = depth
+		}
+		if (this.uniforms.depthUvScale) {
+			this.uniforms.depthUvScale.value.copy(depthUvScale)
+		}
+	}
+
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
+		}
+	}
+}
@@ -1,6 +1,8 @@
 import * as THREE from 'three'
 import stochasticDepthVert from '../shaders/stochasticDepth.vert.glsl?raw'
 import stochasticDepthFrag from '../shaders/stochasticDepth.frag.glsl?raw'
+import ditherPatternChunk from '../shaders/chunks/ditherPattern.glsl?raw'
+import windSwayChunk from '../shaders/chunks/windSway.glsl?raw'
 
 export class StochasticDepthMaterial extends THREE.ShaderMaterial {
 	public constructor(
@@ -17,8 +19,8 @@ export class StochasticDepthMaterial extends THREE.ShaderMaterial {
 				opacityMap: { value: null },
 				hasOpacityMap: { value: false },
 			},
-			vertexShader: stochasticDepthVert,
-			fragmentShader: stochasticDepthFrag,
+			vertexShader: windSwayChunk + '\n' + stochasticDepthVert,
+			fragmentShader: ditherPatternChunk + '\n' + stochasticDepthFrag,
 			transparent: false,
 			depthWrite: true,
 			depthTest: true,
@@ -1,7 +1,16 @@
 import * as THREE from 'three'
 import stochasticTransparencyVert from '../shaders/stochasticTransparency.vert.glsl?raw'
 import stochasticTransparencyFrag from '../shaders/stochasticTransparency.frag.glsl?raw'
+import ditherPatternChunk from '../shaders/chunks/ditherPattern.glsl?raw'
+import fogShadowChunk from '../shaders/chunks/fogShadow.glsl?raw'
+import windSwayChunk from '../shaders/chunks/windSway.glsl?raw'
 
+/**
+ * Dithered stand-in for transparent MeshPhysicalMaterials, resolved to partial coverage by TAA.
+ * Shading is a two-sided Lambert approximation: only color, map, emissive and the pipeline's directional
+ * light are carried over, roughness, metalness, transmission, clearcoat and local lights are not.
+ * Without TAA the dither pattern is shown as is.
+ */
 export class StochasticTransparencyMaterial extends THREE.ShaderMaterial {
 	public constructor(
 		renderWidth: number,
@@ -14,9 +23,19 @@ export class StochasticTransparencyMaterial extends THREE.ShaderMaterial {
 				jitterIndex: { value: 0 },
 				resolution: { value: new THREE.Vector2(renderWidth, renderHeight) },
 				bayerMatrixSize: { value: bayerMatrixSize },
+				opacityMap: { value: null },
+				hasOpacityMap: { value: false },
+				baseColor: { value: new THREE.Color(0x999999) },
+				emissive: { value: new THREE.Color(0x000000) },
+				lightDirection: { value: new THREE.Vector3(0, 1, 0) }, // normalized direction FROM scene TO light
+				lightColor: { value: new THREE.Color(0xffffff) },
+				// Fog transmittance towards the light
+				tFogShadow: { value: null },
+				fogShadowMatrix: { value: new THREE.Matrix4() },
+				useFogShadow: { value: false },
 			},
-			vertexShader: stochasticTransparencyVert,
-			fragmentShader: stochasticTransparencyFrag,
+			vertexShader: windSwayChunk + '\n' + stochasticTransparencyVert,
+			fragmentShader: ditherPatternChunk + '\n' + fogShadowChunk + '\n' + stochasticTransparencyFrag,
 			transparent: false, // No traditional transparency
 			depthWrite: true,
 			depthTest: true,
@@ -34,5 +53,59 @@ export class StochasticTransparencyMaterial extends THREE.ShaderMaterial {
 			this.uniforms.jitterIndex.value = index
 		}
 	}
-}
 
+	public updateOpacity(value: number): void {
+		if (this.uniforms.opacity) {
+			this.uniforms.opacity.value = value
+		}
+	}
+
+	public updateOpacityMap(texture: THREE.Texture | null): void {
+		if (this.uniforms.opacityMap) {
+			this.uniforms.opacityMap.value = texture
+		}
+		if (this.uniforms.hasOpacityMap) {
+			this.uniforms.hasOpacityMap.value = texture !== null
+		}
+	}
+
+	public updateFromMaterial(material: THREE.MeshPhysicalMaterial): void {
+		// Copy the parameters the dithered shading approximates
+		this.updateOpacity(material.opacity)
+		this.updateOpacityMap(material.map || null)
+		if (this.uniforms.baseColor) {
+			this.uniforms.baseColor.value.copy(material.color)
+		}
+		if (this.uniforms.emissive) {
+			this.uniforms.emissive.value.copy(material.emissive).multiplyScalar(material.emissiveIntensity)
+		}
+		this.side = material.side
+	}
+
+	public updateLight(light: THREE.DirectionalLight): void {
+		light.updateMatrixWorld()
+		light.target.updateMatrixWorld()
+
+		if (this.uniforms.lightDirection) {
+			// Directional lights shine from their position towards their target
+			const targetPosition = light.target.getWorldPosition(new THREE.Vector3())
+			light.getWorldPosition(this.uniforms.lightDirection.value).sub(targetPosition).normalize()
+		}
+		if (this.uniforms.lightColor) {
+			this.uniforms.lightColor.value.copy(light.color).multiplyScalar(light.intensity)
+		}
+	}
+
+	public updateFogShadow(uniforms: { [uniform: string]: THREE.IUniform }): void {
+		// Copied after clone(), render target textures cannot go through cloneUniforms()
+		if (this.uniforms.tFogShadow) {
+			this.uniforms.tFogShadow.value = uniforms.tFogShadow.value
+		}
+		if (this.uniforms.fogShadowMatrix) {
+			this.uniforms.fogShadowMatrix.value.copy(uniforms.fogShadowMatrix.value)
+		}
+		if (this.uniforms.useFogShadow) {
+			this.uniforms.useFogShadow.value = uniforms.useFogShadow.value
+		}
+	}
+}
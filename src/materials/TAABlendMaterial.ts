@@ -9,12 +9,15 @@ export class TAABlendMaterial extends THREE.ShaderMaterial {
 				tCurrent: { value: null },
 				tHistory: { value: null },
 				tVelocity: { value: null },
-				tDepth: { value: null },
 				tHistoryDepth: { value: null },
 				baseBlend: { value: 0.01 },
 				maxHistoryWeight: { value: 0.9 },
-				depthThreshold: { value: 0.01 },
+				depthThreshold: { value: 0.05 }, // Relative depth error before history is rejected
+				cameraNearFar: { value: new THREE.Vector2(0.1, 1000) },
 				texelSize: { value: new THREE.Vector2(1.0 / width, 1.0 / height) },
+				// Dynamic resolution sub-viewports (this frame / previous frame depth)
+				currentUvScale: { value: new THREE.Vector2(1, 1) },
+				historyDepthUvScale: { value: new THREE.Vector2(1, 1) },
 			},
 			vertexShader: taaBlendVert,
 			fragmentShader: taaBlendFrag,
@@ -23,6 +26,12 @@ export class TAABlendMaterial extends THREE.ShaderMaterial {
 		})
 	}
 
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		if (this.uniforms.cameraNearFar) {
+			this.uniforms.cameraNearFar.value.set(camera.near, camera.far)
+		}
+	}
+
 	public updateTexelSize(width: number, height: number): void {
 		if (this.uniforms.texelSize) {
 			this.uniforms.texelSize.value.set(1.0 / width, 1.0 / height)
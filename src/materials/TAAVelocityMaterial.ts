@@ -14,6 +14,10 @@ export class TAAVelocityMaterial extends THREE.ShaderMaterial {
 				previousJitter: { value: new THREE.Vector2(0, 0) },
 				resolution: { value: new THREE.Vector2(width, height) },
 				tDepth: { value: null },
+				depthUvScale: { value: new THREE.Vector2(1, 1) }, // Dynamic resolution sub-viewport of tDepth
+				// Per-object motion (ObjectVelocityMaterial), drawn in the same sub-viewport as tDepth
+				tObjectVelocity: { value: null },
+				useObjectVelocity: { value: false },
 			},
 			vertexShader: taaVelocityVert,
 			fragmentShader: taaVelocityFrag,
@@ -25,5 +29,21 @@ export class TAAVelocityMaterial extends THREE.ShaderMaterial {
 			this.uniforms.resolution.value.set(width, height)
 		}
 	}
-}
 
+	public updateCamera(camera: THREE.Camera, jitter?: THREE.Vector2): void {
+		// Matrices of the last frame become the previous matrices, call once per frame
+		if (this.uniforms.previousViewMatrix && this.uniforms.currentViewMatrix) {
+			this.uniforms.previousViewMatrix.value.copy(this.uniforms.currentViewMatrix.value)
+			this.uniforms.currentViewMatrix.value.copy(camera.matrixWorldInverse)
+		}
+		if (this.uniforms.previousProjectionMatrix && this.uniforms.currentProjectionMatrix) {
+			this.uniforms.previousProjectionMatrix.value.copy(this.uniforms.currentProjectionMatrix.value)
+			this.uniforms.currentProjectionMatrix.value.copy(camera.projectionMatrix)
+		}
+		// Sub-pixel jitter in UV units baked into the projection matrix
+		if (this.uniforms.previousJitter && this.uniforms.currentJitter) {
+			this.uniforms.previousJitter.value.copy(this.uniforms.currentJitter.value)
+			this.uniforms.currentJitter.value.set(jitter?.x ?? 0, jitter?.y ?? 0)
+		}
+	}
+}
@@ -0,0 +1,170 @@
+import * as THREE from 'three'
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { BloomDownsampleMaterial } from '../materials/BloomDownsampleMaterial'
+import { BloomUpsampleMaterial } from '../materials/BloomUpsampleMaterial'
+import { RenderGraph, RenderPassNode, RenderTargetDescriptor } from '../graph/RenderGraph'
+import { PostProcessInput, PostProcessPass } from './PostProcessPass'
+import bloomFrag from '../shaders/bloom.frag.glsl?raw'
+
+// Mip levels of the bloom chain (the first one is half the input resolution)
+const BLOOM_MAX_LEVELS = 6
+// Levels smaller than this (in pixels, either axis) are not created
+const BLOOM_MIN_LEVEL_SIZE = 8
+
+export type BloomSettings = {
+	threshold: number // Linear HDR brightness where bloom starts
+	knee: number // Soft transition width below the threshold
+	intensity: number // Bloom added on top of the color
+	radius: number // 0 = tight glow from the largest level, 1 = wide glow from the smallest levels
+}
+
+/**
+ * Multi-level bloom on linear HDR color, registered before the tone mapping pass.
+ * The thresholded input is filtered down a half float mip chain and tent-filtered back up,
+ * each level blended over the next larger one, then added to the color.
+ * The mip targets and both filter chains are render graph targets and passes (see getTargets()).
+ */
+export class BloomPass extends PostProcessPass<BloomSettings> {
+	private downsampleMaterial: BloomDownsampleMaterial = new BloomDownsampleMaterial()
+	private upsampleMaterial: BloomUpsampleMaterial = new BloomUpsampleMaterial()
+	private inputSize: THREE.Vector2 = new THREE.Vector2(1, 1)
+	// Levels at least BLOOM_MIN_LEVEL_SIZE at the current size, the remaining targets are skipped
+	private levels: number = 0
+
+	public constructor(settings: Partial<BloomSettings> = {}) {
+		super(
+			'bloom',
+			new PostProcessMaterial(bloomFrag, {
+				tBloom: { value: null },
+				intensity: { value: 0 },
+			}),
+			{ threshold: 1.0, knee: 0.5, intensity: 0.15, radius: 0.7, ...settings }
+		)
+		this.updateFilterSettings()
+	}
+
+	public setSettings(settings: Partial<BloomSettings>): void {
+		super.setSettings(settings)
+		this.updateFilterSettings()
+	}
+
+	public setSize(width: number, height: number): void {
+		super.setSize(width, height)
+		this.inputSize.set(width, height)
+
+		// Level sizes halve (rounded down) like the graph sizes the targets
+		let levelWidth = Math.floor(width / 2)
+		let levelHeight = Math.floor(height / 2)
+		this.levels = 0
+		while (
+			this.levels < BLOOM_MAX_LEVELS &&
+			levelWidth >= BLOOM_MIN_LEVEL_SIZE &&
+			levelHeight >= BLOOM_MIN_LEVEL_SIZE
+		) {
+			this.levels++
+			levelWidth = Math.floor(levelWidth / 2)
+			levelHeight = Math.floor(levelHeight / 2)
+		}
+		if (this.levels === 0) {
+			this.material.uniforms.tBloom.value = null
+		}
+	}
+
+	public getTargets(): Record<string, RenderTargetDescriptor> {
+		const targets: Record<string, RenderTargetDescriptor> = {}
+		for (let level = 0; level < BLOOM_MAX_LEVELS; level++) {
+			const descriptor: RenderTargetDescriptor = {
+				size: { scale: 0.5 ** (level + 1) },
+				type: THREE.HalfFloatType,
+				depthBuffer: false,
+			}
+			targets[this.getDownsampleTargetName(level)] = descriptor
+			// The smallest level is never upsampled into
+			if (level < BLOOM_MAX_LEVELS - 1) {
+				targets[this.getUpsampleTargetName(level)] = descriptor
+			}
+		}
+		return targets
+	}
+
+	public getGraphPasses(graph: RenderGraph, input: PostProcessInput): RenderPassNode[] {
+		const levels = [...Array(BLOOM_MAX_LEVELS).keys()]
+		const downsampleTargets = levels.map((level) => this.getDownsampleTargetName(level))
+		const upsampleTargets = levels.slice(0, -1).map((level) => this.getUpsampleTargetName(level))
+		return [
+			{
+				name: `${this.name}Downsample`,
+				reads: input.reads,
+				writes: downsampleTargets,
+				enabled: () => this.enabled && this.levels > 0,
+				execute: () => {
+					input.bind()
+					this.renderDownsample(graph, this.material.uniforms.tInput.value)
+				},
+			},
+			{
+				name: `${this.name}Upsample`,
+				reads: downsampleTargets,
+				writes: upsampleTargets,
+				enabled: () => this.enabled && this.levels > 1,
+				execute: () => this.renderUpsample(graph),
+			},
+		]
+	}
+
+	public dispose(): void {
+		super.dispose()
+		this.downsampleMaterial.dispose()
+		this.upsampleMaterial.dispose()
+	}
+
+	private renderDownsample(graph: RenderGraph, input: THREE.Texture): void {
+		// Threshold into the first level, then filter each level into the next
+		let source = input
+		let sourceWidth = this.inputSize.x
+		let sourceHeight = this.inputSize.y
+		for (let level = 0; level < this.levels; level++) {
+			const target = graph.getTarget(this.getDownsampleTargetName(level))
+			this.downsampleMaterial.updateSource(source, sourceWidth, sourceHeight, level === 0)
+			graph.renderFullscreen(this.downsampleMaterial, target)
+			source = target.texture
+			sourceWidth = target.width
+			sourceHeight = target.height
+		}
+
+		// A single level is added as is
+		this.material.uniforms.tBloom.value = source
+	}
+
+	private renderUpsample(graph: RenderGraph): void {
+		// From the smallest level, blend each upsampled level over the next larger downsample
+		let lower = graph.getTarget(this.getDownsampleTargetName(this.levels - 1))
+		for (let level = this.levels - 2; level >= 0; level--) {
+			const target = graph.getTarget(this.getUpsampleTargetName(level))
+			this.upsampleMaterial.updateSources(
+				graph.getTarget(this.getDownsampleTargetName(level)).texture,
+				lower.texture,
+				lower.width,
+				lower.height
+			)
+			graph.renderFullscreen(this.upsampleMaterial, target)
+			lower = target
+		}
+
+		this.material.uniforms.tBloom.value = lower.texture
+	}
+
+	private getDownsampleTargetName(level: number): string {
+		return `${this.name}Downsample${level}`
+	}
+
+	private getUpsampleTargetName(level: number): string {
+		return `${this.name}Upsample${level}`
+	}
+
+	private updateFilterSettings(): void {
+		const { threshold, knee, radius } = this.getSettings()
+		this.downsampleMaterial.updateThreshold(threshold, knee)
+		this.upsampleMaterial.updateRadius(radius)
+	}
+}
@@ -0,0 +1,28 @@
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { PostProcessPass } from './PostProcessPass'
+import colorCorrectionFrag from '../shaders/colorCorrection.frag.glsl?raw'
+
+export type ColorCorrectionSettings = {
+	exposure: number // Linear multiplier
+	contrast: number // Slope around middle gray in log2 space
+	saturation: number
+	brightness: number // Linear multiplier, 1 = unchanged
+}
+
+/**
+ * Grading in linear HDR, registered before the tone mapping pass
+ */
+export class ColorCorrectionPass extends PostProcessPass<ColorCorrectionSettings> {
+	public constructor(settings: Partial<ColorCorrectionSettings> = {}) {
+		super(
+			'colorCorrection',
+			new PostProcessMaterial(colorCorrectionFrag, {
+				exposure: { value: 1 },
+				contrast: { value: 1 },
+				saturation: { value: 1 },
+				brightness: { value: 1 },
+			}),
+			{ exposure: 1.46, contrast: 1.11, saturation: 0.65, brightness: 1.07, ...settings }
+		)
+	}
+}
@@ -0,0 +1,260 @@
+import * as THREE from 'three'
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { RenderGraph, RenderPassNode, RenderTargetDescriptor } from '../graph/RenderGraph'
+import { PostProcessInput, PostProcessPass } from './PostProcessPass'
+import circleOfConfusionChunk from '../shaders/chunks/circleOfConfusion.glsl?raw'
+import dofFocusFrag from '../shaders/dofFocus.frag.glsl?raw'
+import dofPrefilterFrag from '../shaders/dofPrefilter.frag.glsl?raw'
+import dofBlurFrag from '../shaders/dofBlur.frag.glsl?raw'
+import dofFrag from '../shaders/dof.frag.glsl?raw'
+
+export type DepthOfFieldFocusMode = 'manual' | 'cursor' | 'target'
+
+export const DEPTH_OF_FIELD_FOCUS_MODES: DepthOfFieldFocusMode[] = ['manual', 'cursor', 'target']
+
+// Must match FOCUS_* in dofFocus.frag.glsl
+const FOCUS_MODE_IDS: Record<DepthOfFieldFocusMode, number> = {
+	manual: 0,
+	cursor: 1,
+	target: 2,
+}
+
+// Share of the autofocus distance taken per frame (manual focus applies immediately)
+const AUTOFOCUS_ADAPTATION = 0.1
+
+export type DepthOfFieldSettings = {
+	fStop: number // Aperture diameter = camera focal length / fStop
+	focusDistance: number // Manual focus, in meters along the view axis
+	focusMode: number // See setFocusMode()
+	maxBlur: number // Largest circle of confusion diameter in pixels
+}
+
+/**
+ * Thin lens depth of field on the composited image, registered before bloom.
+ * The fog is already composited into the input, so it is blurred by the same CoC as the surface
+ * behind it instead of staying sharp over a blurred scene.
+ * The CoC comes from the scene depth, the camera's focal length (field of view and film gauge) and a
+ * 1x1 focus distance that eases towards the autofocus point (under the cursor or at the orbit target);
+ * a half resolution gather is blended in by CoC. Its targets and passes are render graph ones.
+ */
+export class DepthOfFieldPass extends PostProcessPass<DepthOfFieldSettings> {
+	private focusMaterial: PostProcessMaterial
+	private prefilterMaterial: PostProcessMaterial
+	private blurMaterial: PostProcessMaterial
+	private focusHistory: boolean = false
+	private focusTarget: THREE.Vector3 = new THREE.Vector3()
+	private focusTargetView: THREE.Vector3 = new THREE.Vector3()
+	private resolution: THREE.Vector2 = new THREE.Vector2(1, 1)
+	private focalLength: number = 50 // mm
+	private filmHeight: number = 24 // mm
+
+	// Shared by the prefilter, gather and composite materials (chunks/circleOfConfusion.glsl)
+	private cocUniforms: { [uniform: string]: THREE.IUniform }
+
+	public constructor(settings: Partial<DepthOfFieldSettings> = {}) {
+		const cocUniforms = {
+			tFocus: { value: null },
+			cocScale: { value: 0 },
+			lensFocalLength: { value: 0.05 },
+			maxCoC: { value: 24 },
+		}
+		super(
+			'depthOfField',
+			new PostProcessMaterial(circleOfConfusionChunk + '\n' + dofFrag, {
+				...cocUniforms,
+				tBlur: { value: null },
+			}),
+			{
+				fStop: 2.8,
+				focusDistance: 3,
+				focusMode: FOCUS_MODE_IDS.target,
+				maxBlur: 24,
+				...settings,
+			}
+		)
+		this.cocUniforms = cocUniforms
+		this.enabled = false
+
+		this.focusMaterial = new PostProcessMaterial(dofFocusFrag, {
+			tPreviousFocus: { value: null },
+			hasHistory: { value: false },
+			focusMode: { value: 0 },
+			focusDistance: { value: 3 },
+			focusUv: { value: new THREE.Vector2(0.5, 0.5) },
+			focusTargetDepth: { value: 3 },
+			adaptation: { value: 1 },
+		})
+		this.prefilterMaterial = new PostProcessMaterial(circleOfConfusionChunk + '\n' + dofPrefilterFrag, cocUniforms)
+		this.blurMaterial = new PostProcessMaterial(dofBlurFrag, { maxCoC: cocUniforms.maxCoC })
+		for (const material of [this.focusMaterial, this.prefilterMaterial, this.blurMaterial]) {
+			material.blending = THREE.NoBlending
+		}
+
+		this.updateLensSettings()
+	}
+
+	public getFocusMode(): DepthOfFieldFocusMode {
+		const id = this.getSettings().focusMode
+		return DEPTH_OF_FIELD_FOCUS_MODES.find((mode) => FOCUS_MODE_IDS[mode] === id) ?? 'manual'
+	}
+
+	public setFocusMode(mode: DepthOfFieldFocusMode): void {
+		this.setSettings({ focusMode: FOCUS_MODE_IDS[mode] })
+	}
+
+	/**
+	 * Autofocus point in screen UVs (origin bottom left), used in 'cursor' mode
+	 */
+	public setFocusPoint(uv: THREE.Vector2): void {
+		this.focusMaterial.uniforms.focusUv.value.copy(uv)
+	}
+
+	/**
+	 * Autofocus point in world space (the orbit target), used in 'target' mode
+	 */
+	public setFocusTarget(point: THREE.Vector3): void {
+		this.focusTarget.copy(point)
+	}
+
+	public setSettings(settings: Partial<DepthOfFieldSettings>): void {
+		super.setSettings(settings)
+		this.updateLensSettings()
+	}
+
+	public setSize(width: number, height: number): void {
+		super.setSize(width, height)
+		this.resolution.set(width, height)
+		this.updateLensSettings()
+
+		// Sized like the graph sizes the half resolution targets
+		const halfWidth = Math.max(1, Math.floor(width / 2))
+		const halfHeight = Math.max(1, Math.floor(height / 2))
+		this.focusMaterial.updateResolution(width, height)
+		this.prefilterMaterial.updateResolution(width, height)
+		this.blurMaterial.updateResolution(halfWidth, halfHeight)
+	}
+
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		super.updateCamera(camera)
+		for (const material of [this.focusMaterial, this.prefilterMaterial, this.blurMaterial]) {
+			material.updateCamera(camera)
+		}
+
+		// Orbit target distance along the view axis
+		this.focusTargetView.copy(this.focusTarget).applyMatrix4(camera.matrixWorldInverse)
+		this.focusMaterial.uniforms.focusTargetDepth.value = Math.max(-this.focusTargetView.z, camera.near)
+
+		// The lens follows the camera's field of view and film gauge
+		if (camera.getFocalLength() !== this.focalLength || camera.getFilmHeight() !== this.filmHeight) {
+			this.focalLength = camera.getFocalLength()
+			this.filmHeight = camera.getFilmHeight()
+			this.updateLensSettings()
+		}
+	}
+
+	public getTargets(): Record<string, RenderTargetDescriptor> {
+		const halfResolution: RenderTargetDescriptor = {
+			size: { scale: 0.5 },
+			type: THREE.HalfFloatType,
+			depthBuffer: false,
+		}
+		return {
+			// Eased from last frame's
+			[this.getTargetName('Focus')]: {
+				size: { width: 1, height: 1 },
+				type: THREE.HalfFloatType,
+				depthBuffer: false,
+				history: true,
+			},
+			[this.getTargetName('Prefilter')]: halfResolution,
+			[this.getTargetName('Blur')]: halfResolution,
+		}
+	}
+
+	public getGraphPasses(graph: RenderGraph, input: PostProcessInput): RenderPassNode[] {
+		const focus = this.getTargetName('Focus')
+		const prefilter = this.getTargetName('Prefilter')
+		const blur = this.getTargetName('Blur')
+		return [
+			{
+				name: focus,
+				reads: [...input.reads, 'color', focus],
+				writes: [focus],
+				enabled: () => this.enabled,
+				execute: () => {
+					input.bind()
+					this.renderFocus(graph)
+				},
+			},
+			{
+				name: prefilter,
+				reads: [...input.reads, 'color', focus],
+				writes: [prefilter],
+				enabled: () => this.enabled,
+				execute: () => this.renderPrefilter(graph),
+			},
+			{
+				name: blur,
+				reads: [prefilter],
+				writes: [blur],
+				enabled: () => this.enabled,
+				execute: () => this.renderBlur(graph),
+			},
+		]
+	}
+
+	public dispose(): void {
+		super.dispose()
+		this.focusMaterial.dispose()
+		this.prefilterMaterial.dispose()
+		this.blurMaterial.dispose()
+	}
+
+	private renderFocus(graph: RenderGraph): void {
+		const { tInput, tDepth, depthUvScale } = this.material.uniforms
+		for (const material of [this.focusMaterial, this.prefilterMaterial]) {
+			material.updateInputs(tInput.value, tDepth.value, depthUvScale.value)
+		}
+
+		// Focus distance, eased from last frame's
+		const focus = this.getTargetName('Focus')
+		this.focusMaterial.uniforms.tPreviousFocus.value = graph.getHistoryTarget(focus).texture
+		this.focusMaterial.uniforms.hasHistory.value = this.focusHistory
+		graph.renderFullscreen(this.focusMaterial, graph.getTarget(focus))
+		this.focusHistory = true
+		this.cocUniforms.tFocus.value = graph.getTarget(focus).texture
+	}
+
+	private renderPrefilter(graph: RenderGraph): void {
+		// Half resolution color + CoC
+		graph.renderFullscreen(this.prefilterMaterial, graph.getTarget(this.getTargetName('Prefilter')))
+	}
+
+	private renderBlur(graph: RenderGraph): void {
+		// The gather
+		const prefilterTarget = graph.getTarget(this.getTargetName('Prefilter'))
+		const blurTarget = graph.getTarget(this.getTargetName('Blur'))
+		this.blurMaterial.updateInputs(prefilterTarget.texture, null, this.material.uniforms.depthUvScale.value)
+		graph.renderFullscreen(this.blurMaterial, blurTarget)
+		this.material.uniforms.tBlur.value = blurTarget.texture
+	}
+
+	private getTargetName(suffix: string): string {
+		return `${this.name}${suffix}`
+	}
+
+	private updateLensSettings(): void {
+		const { fStop, focusDistance, focusMode, maxBlur } = this.getSettings()
+		// Millimeters to meters; the CoC diameter on the film, scaled from film height to pixels
+		const focalLengthMeters = this.focalLength / 1000
+		const filmHeightMeters = this.filmHeight / 1000
+		this.cocUniforms.lensFocalLength.value = focalLengthMeters
+		this.cocUniforms.cocScale.value =
+			((focalLengthMeters * focalLengthMeters) / (Math.max(fStop, 0.1) * filmHeightMeters)) * this.resolution.y
+		this.cocUniforms.maxCoC.value = maxBlur
+
+		this.focusMaterial.uniforms.focusMode.value = focusMode
+		this.focusMaterial.uniforms.focusDistance.value = focusDistance
+		this.focusMaterial.uniforms.adaptation.value = focusMode === FOCUS_MODE_IDS.manual ? 1 : AUTOFOCUS_ADAPTATION
+	}
+}
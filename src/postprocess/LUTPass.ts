@@ -0,0 +1,47 @@
+import * as THREE from 'three'
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { PostProcessPass } from './PostProcessPass'
+import { CubeLUT } from '../loaders/CubeLUTParser'
+import lutFrag from '../shaders/lut.frag.glsl?raw'
+
+export type LUTSettings = {
+	strength: number // 0 = ungraded, 1 = fully graded
+}
+
+/**
+ * 3D LUT color grading of the tone mapped (display) color, blended with the input by strength.
+ * Disabled until a LUT is set.
+ */
+export class LUTPass extends PostProcessPass<LUTSettings> {
+	private lut: CubeLUT | null = null
+
+	public constructor() {
+		super(
+			'lut',
+			new PostProcessMaterial(lutFrag, {
+				tLUT: { value: null },
+				lutSize: { value: 2 },
+				domainMin: { value: new THREE.Vector3(0, 0, 0) },
+				domainMax: { value: new THREE.Vector3(1, 1, 1) },
+				strength: { value: 1 },
+			}),
+			{ strength: 1 }
+		)
+		this.enabled = false
+	}
+
+	public getLUT(): CubeLUT | null {
+		return this.lut
+	}
+
+	public setLUT(lut: CubeLUT | null): void {
+		this.lut = lut
+		this.enabled = lut !== null
+		this.material.uniforms.tLUT.value = lut?.texture ?? null
+		if (lut) {
+			this.material.uniforms.lutSize.value = lut.size
+			this.material.uniforms.domainMin.value.copy(lut.domainMin)
+			this.material.uniforms.domainMax.value.copy(lut.domainMax)
+		}
+	}
+}
@@ -0,0 +1,36 @@
+import * as THREE from 'three'
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { RenderGraph } from '../graph/RenderGraph'
+import { PostProcessPass } from './PostProcessPass'
+import motionBlurFrag from '../shaders/motionBlur.frag.glsl?raw'
+
+export type MotionBlurSettings = {
+	intensity: number // Shutter open fraction of the frame time (0.5 = 180 degree shutter)
+	samples: number // Taps along the motion per pixel
+	maxBlur: number // Longest streak in pixels
+}
+
+/**
+ * Camera and object motion blur in linear HDR, registered before bloom.
+ * Samples the pipeline's 'velocity' target (camera reconstruction merged with per-object motion),
+ * which the pipeline renders whenever this pass is enabled.
+ */
+export class MotionBlurPass extends PostProcessPass<MotionBlurSettings> {
+	public constructor(settings: Partial<MotionBlurSettings> = {}) {
+		super(
+			'motionBlur',
+			new PostProcessMaterial(motionBlurFrag, {
+				tVelocity: { value: null },
+				intensity: { value: 0 },
+				samples: { value: 0 },
+				maxBlur: { value: 0 },
+			}),
+			{ intensity: 0.5, samples: 12, maxBlur: 32, ...settings }
+		)
+		this.enabled = false
+	}
+
+	public prepare(graph: RenderGraph, _input: THREE.Texture): void {
+		this.material.uniforms.tVelocity.value = graph.getTarget('velocity').texture
+	}
+}
@@ -0,0 +1,80 @@
+import * as THREE from 'three'
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { RenderGraph, RenderPassNode, RenderTargetDescriptor } from '../graph/RenderGraph'
+
+// Declare pass settings as object type aliases, interfaces are not assignable to an index signature
+export type PostProcessSettings = Record<string, number | boolean>
+
+// Where the graph passes of a post-process pass find its input
+export interface PostProcessInput {
+	reads: string[] // Targets the input may come from, depending on which earlier passes are enabled
+	bind: () => void // Binds this frame's input, depth and camera to the pass's material (see Pipeline)
+}
+
+/**
+ * Fullscreen effect run after the fog composition, in the order passes are registered on the Pipeline.
+ * Settings are written to the material uniforms of the same name.
+ */
+export class PostProcessPass<TSettings extends PostProcessSettings = PostProcessSettings> {
+	public enabled: boolean = true
+
+	private settings: TSettings
+
+	public constructor(
+		public readonly name: string,
+		public readonly material: PostProcessMaterial,
+		settings: TSettings
+	) {
+		this.settings = { ...settings }
+		this.applySettings()
+	}
+
+	public getSettings(): Readonly<TSettings> {
+		return this.settings
+	}
+
+	public setSettings(settings: Partial<TSettings>): void {
+		this.settings = { ...this.settings, ...settings }
+		this.applySettings()
+	}
+
+	public setSize(width: number, height: number): void {
+		this.material.updateResolution(width, height)
+	}
+
+	public updateCamera(camera: THREE.PerspectiveCamera): void {
+		this.material.updateCamera(camera)
+	}
+
+	/**
+	 * Render graph targets of the pass, declared while it is registered on the Pipeline.
+	 * Names should start with the pass name so several instances can be registered.
+	 */
+	public getTargets(): Record<string, RenderTargetDescriptor> {
+		return {}
+	}
+
+	/**
+	 * Render graph passes drawing the pass's targets, run right before its material (in the Pipeline's order)
+	 */
+	public getGraphPasses(_graph: RenderGraph, _input: PostProcessInput): RenderPassNode[] {
+		return []
+	}
+
+	/**
+	 * Called right before the material is drawn (inputs and camera already updated), to bind graph targets
+	 */
+	public prepare(_graph: RenderGraph, _input: THREE.Texture): void {}
+
+	public dispose(): void {
+		this.material.dispose()
+	}
+
+	private applySettings(): void {
+		for (const [name, value] of Object.entries(this.settings)) {
+			if (this.material.uniforms[name]) {
+				this.material.uniforms[name].value = value
+			}
+		}
+	}
+}
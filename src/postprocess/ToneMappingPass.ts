@@ -0,0 +1,48 @@
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { PostProcessPass } from './PostProcessPass'
+import toneMappingFrag from '../shaders/toneMapping.frag.glsl?raw'
+
+export type ToneMappingOperator = 'none' | 'reinhard' | 'aces' | 'agx' | 'uncharted2'
+
+export const TONE_MAPPING_OPERATORS: ToneMappingOperator[] = ['none', 'reinhard', 'aces', 'agx', 'uncharted2']
+
+// Must match TONE_MAPPING_* in toneMapping.frag.glsl
+const TONE_MAPPING_OPERATOR_IDS: Record<ToneMappingOperator, number> = {
+	none: 0,
+	reinhard: 1,
+	aces: 2,
+	agx: 3,
+	uncharted2: 4,
+}
+
+export type ToneMappingSettings = {
+	operator: number // See setOperator()
+}
+
+/**
+ * Maps the linear HDR composite to sRGB display values.
+ * Passes registered before it see linear HDR color, passes after it display color.
+ */
+export class ToneMappingPass extends PostProcessPass<ToneMappingSettings> {
+	private operator: ToneMappingOperator
+
+	public constructor(operator: ToneMappingOperator = 'aces') {
+		super(
+			'toneMapping',
+			new PostProcessMaterial(toneMappingFrag, {
+				operator: { value: TONE_MAPPING_OPERATOR_IDS[operator] },
+			}),
+			{ operator: TONE_MAPPING_OPERATOR_IDS[operator] }
+		)
+		this.operator = operator
+	}
+
+	public getOperator(): ToneMappingOperator {
+		return this.operator
+	}
+
+	public setOperator(operator: ToneMappingOperator): void {
+		this.operator = operator
+		this.setSettings({ operator: TONE_MAPPING_OPERATOR_IDS[operator] })
+	}
+}
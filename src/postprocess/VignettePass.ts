@@ -0,0 +1,21 @@
+import { PostProcessMaterial } from '../materials/PostProcessMaterial'
+import { PostProcessPass } from './PostProcessPass'
+import vignetteFrag from '../shaders/vignette.frag.glsl?raw'
+
+export type VignetteSettings = {
+	intensity: number // 0 = no darkening
+	radius: number // Distance from the center where the darkening is complete
+}
+
+export class VignettePass extends PostProcessPass<VignetteSettings> {
+	public constructor(settings: Partial<VignetteSettings> = {}) {
+		super(
+			'vignette',
+			new PostProcessMaterial(vignetteFrag, {
+				intensity: { value: 0 },
+				radius: { value: 0 },
+			}),
+			{ intensity: 0.61, radius: 0.85, ...settings }
+		)
+	}
+}
@@ -0,0 +1,180 @@
+import * as THREE from 'three'
+
+export type ProfilerTimerMode = 'gpu' | 'cpu'
+
+export interface ProfilerSample {
+	frame: number
+	time: number // performance.now() at the start of the frame, in ms
+	passes: Record<string, number> // Pass duration in ms
+}
+
+interface PendingFrame {
+	sample: ProfilerSample
+	queries: { pass: string; query: WebGLQuery }[]
+}
+
+// Subset of EXT_disjoint_timer_query_webgl2 used here (not in the DOM typings)
+interface TimerQueryExtension {
+	TIME_ELAPSED_EXT: number
+	GPU_DISJOINT_EXT: number
+}
+
+/**
+ * Per-pass frame timings.
+ * With EXT_disjoint_timer_query_webgl2 every pass is wrapped in a TIME_ELAPSED query whose result
+ * arrives a few frames later; without it the CPU time spent issuing the pass is measured instead.
+ * Passes cannot be nested (only one TIME_ELAPSED query may be active at a time).
+ */
+export class GPUProfiler {
+	public enabled: boolean = false
+
+	private gl: WebGL2RenderingContext
+	private extension: TimerQueryExtension | null
+	private frame: number = 0
+	private current: PendingFrame | null = null
+	private pending: PendingFrame[] = []
+	private samples: ProfilerSample[] = []
+	private queryPool: WebGLQuery[] = []
+
+	public constructor(renderer: THREE.WebGLRenderer, private maxSamples: number = 600) {
+		this.gl = renderer.getContext() as WebGL2RenderingContext
+		this.extension = this.gl.getExtension('EXT_disjoint_timer_query_webgl2') as TimerQueryExtension | null
+	}
+
+	public getMode(): ProfilerTimerMode {
+		return this.extension ? 'gpu' : 'cpu'
+	}
+
+	/**
+	 * @param force Measure the frame even when disabled (frame timings needed by dynamic resolution)
+	 */
+	public beginFrame(force: boolean = false): void {
+		if (!this.enabled && !force) return
+
+		this.collectQueries()
+		this.current = { sample: { frame: this.frame++, time: performance.now(), passes: {} }, queries: [] }
+	}
+
+	public measure(pass: string, render: () => void): void {
+		const frame = this.current
+		if (!frame) {
+			render()
+			return
+		}
+
+		if (this.extension) {
+			const query = this.queryPool.pop() ?? this.gl.createQuery()
+			this.gl.beginQuery(this.extension.TIME_ELAPSED_EXT, query)
+			render()
+			this.gl.endQuery(this.extension.TIME_ELAPSED_EXT)
+			frame.queries.push({ pass, query })
+			return
+		}
+
+		const start = performance.now()
+		render()
+		frame.sample.passes[pass] = (frame.sample.passes[pass] ?? 0) + performance.now() - start
+	}
+
+	public endFrame(): void {
+		if (!this.current) return
+
+		// GPU results are read back in a later beginFrame()
+		if (this.current.queries.length > 0) {
+			this.pending.push(this.current)
+		} else {
+			this.addSample(this.current.sample)
+		}
+		this.current = null
+	}
+
+	/**
+	 * Most recent samples, oldest first
+	 */
+	public getSamples(): readonly ProfilerSample[] {
+		return this.samples
+	}
+
+	/**
+	 * Most recent complete sample (GPU results lag a few frames behind), null before the first one
+	 */
+	public getLatestSample(): ProfilerSample | null {
+		return this.samples[this.samples.length - 1] ?? null
+	}
+
+	/**
+	 * Average duration per pass over the last sampleCount frames, in ms
+	 */
+	public getAverages(sampleCount: number = 60): Record<string, number> {
+		const recent = this.samples.slice(-sampleCount)
+		const averages: Record<string, number> = {}
+		for (const sample of recent) {
+			for (const [pass, duration] of Object.entries(sample.passes)) {
+				averages[pass] = (averages[pass] ?? 0) + duration / recent.length
+			}
+		}
+		return averages
+	}
+
+	public exportJSON(): string {
+		return JSON.stringify(
+			{
+				mode: this.getMode(),
+				exportedAt: new Date().toISOString(),
+				averages: this.getAverages(this.samples.length),
+				samples: this.samples,
+			},
+			null,
+			2
+		)
+	}
+
+	public reset(): void {
+		this.samples = []
+	}
+
+	public dispose(): void {
+		for (const frame of this.pending) {
+			for (const { query } of frame.queries) {
+				this.gl.deleteQuery(query)
+			}
+		}
+		for (const query of this.queryPool) {
+			this.gl.deleteQuery(query)
+		}
+		this.pending = []
+		this.queryPool = []
+	}
+
+	private collectQueries(): void {
+		if (!this.extension || this.pending.length === 0) return
+
+		// A disjoint event (context loss, clock change) invalidates every query in flight
+		const disjoint = this.gl.getParameter(this.extension.GPU_DISJOINT_EXT)
+
+		while (this.pending.length > 0) {
+			const frame = this.pending[0]
+			const lastQuery = frame.queries[frame.queries.length - 1].query
+			if (!disjoint && !this.gl.getQueryParameter(lastQuery, this.gl.QUERY_RESULT_AVAILABLE)) break
+
+			this.pending.shift()
+			for (const { pass, query } of frame.queries) {
+				if (!disjoint) {
+					const nanoseconds = this.gl.getQueryParameter(query, this.gl.QUERY_RESULT)
+					frame.sample.passes[pass] = (frame.sample.passes[pass] ?? 0) + nanoseconds / 1e6
+				}
+				this.queryPool.push(query)
+			}
+			if (!disjoint) {
+				this.addSample(frame.sample)
+			}
+		}
+	}
+
+	private addSample(sample: ProfilerSample): void {
+		this.samples.push(sample)
+		if (this.samples.length > this.maxSamples) {
+			this.samples.shift()
+		}
+	}
+}
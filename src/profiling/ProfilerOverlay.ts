@@ -0,0 +1,74 @@
+import { GPUProfiler } from './GPUProfiler'
+
+// Overlay text refresh period (the profiler itself samples every frame)
+const REFRESH_INTERVAL_MS = 500
+// Frames averaged for the displayed breakdown
+const AVERAGE_SAMPLE_COUNT = 120
+// Width of the proportional bar in characters
+const BAR_WIDTH = 20
+
+/**
+ * Rolling per-pass breakdown of GPUProfiler timings, shown while the profiler is enabled
+ */
+export class ProfilerOverlay {
+	private element: HTMLDivElement
+	private text: HTMLPreElement
+	private lastRefresh: number = 0
+
+	public constructor(private profiler: GPUProfiler) {
+		this.element = document.createElement('div')
+		this.element.className = 'profiler-overlay'
+
+		this.text = document.createElement('pre')
+		this.element.appendChild(this.text)
+
+		const exportButton = document.createElement('button')
+		exportButton.textContent = 'Export JSON'
+		exportButton.addEventListener('click', () => this.exportSamples())
+		this.element.appendChild(exportButton)
+
+		const resetButton = document.createElement('button')
+		resetButton.textContent = 'Reset'
+		resetButton.addEventListener('click', () => this.profiler.reset())
+		this.element.appendChild(resetButton)
+
+		document.body.appendChild(this.element)
+		this.update()
+	}
+
+	public update(): void {
+		this.element.style.display = this.profiler.enabled ? 'block' : 'none'
+		if (!this.profiler.enabled) return
+
+		const now = performance.now()
+		if (now - this.lastRefresh < REFRESH_INTERVAL_MS) return
+		this.lastRefresh = now
+
+		const averages = this.profiler.getAverages(AVERAGE_SAMPLE_COUNT)
+		const passes = Object.keys(averages)
+		const total = passes.reduce((sum, pass) => sum + averages[pass], 0)
+
+		const lines = [`${this.profiler.getMode().toUpperCase()} ms (avg ${AVERAGE_SAMPLE_COUNT} frames)`]
+		for (const pass of passes) {
+			const share = total > 0 ? averages[pass] / total : 0
+			const bar = '#'.repeat(Math.round(share * BAR_WIDTH)).padEnd(BAR_WIDTH, '.')
+			lines.push(`${pass.padEnd(12)} ${averages[pass].toFixed(2).padStart(6)} ${bar}`)
+		}
+		lines.push(`${'total'.padEnd(12)} ${total.toFixed(2).padStart(6)}`)
+		this.text.textContent = lines.join('\n')
+	}
+
+	public dispose(): void {
+		this.element.remove()
+	}
+
+	private exportSamples(): void {
+		const blob = new Blob([this.profiler.exportJSON()], { type: 'application/json' })
+		const url = URL.createObjectURL(blob)
+		const link = document.createElement('a')
+		link.href = url
+		link.download = `profile-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+		link.click()
+		URL.revokeObjectURL(url)
+	}
+}
@@ -0,0 +1,114 @@
+// Ground truth ambient occlusion (Jimenez et al. 2016) from the depth and normals prepass.
+// Two slices per pixel, rotated by interleaved gradient noise that changes every frame so the
+// temporal accumulation (ambientOcclusionBlend.frag.glsl) converges to many more directions.
+
+uniform sampler2D tDepth;              // Prepass depth (unjittered)
+uniform sampler2D tNormal;             // Prepass view-space normals, alpha 0 where nothing was drawn
+uniform vec2 uvScale;                  // Drawn part of the prepass targets (dynamic resolution)
+uniform vec2 resolution;               // Full size of the prepass targets
+uniform mat4 cameraProjectionMatrix;
+uniform mat4 cameraProjectionMatrixInverse;
+uniform float radius;                  // World space search radius
+uniform float intensity;               // Exponent applied to the visibility
+uniform int samples;                   // Horizon steps per side of each slice
+uniform int frameIndex;
+
+varying vec2 vUv;
+
+const float AO_PI = 3.14159265359;
+const float AO_HALF_PI = 1.57079632679;
+const int SLICE_COUNT = 2;
+const int MAX_SAMPLES = 32;
+
+vec3 getViewPosition(vec2 uv) {
+	float depth = texture2D(tDepth, uv * uvScale).x;
+	vec4 viewPosition = cameraProjectionMatrixInverse * vec4(vec3(uv, depth) * 2.0 - 1.0, 1.0);
+	return viewPosition.xyz / viewPosition.w;
+}
+
+// Interleaved gradient noise (Jimenez 2014), offset every frame
+float getNoise(vec2 pixel, float frame) {
+	pixel += frame * 5.588238;
+	return fract(52.9829189 * fract(dot(pixel, vec2(0.06711056, 0.00583715))));
+}
+
+void main() {
+	vec4 normalSample = texture2D(tNormal, vUv * uvScale);
+	if (normalSample.a < 0.5) {
+		gl_FragColor = vec4(1.0);
+		return;
+	}
+
+	vec3 viewPosition = getViewPosition(vUv);
+	vec3 viewDirection = normalize(-viewPosition);
+	vec3 normal = normalize(normalSample.xyz);
+
+	// World radius projected to pixels of the drawn sub-viewport
+	vec2 drawnResolution = resolution * uvScale;
+	float radiusPixels = radius * cameraProjectionMatrix[1][1] * 0.5 * drawnResolution.y / max(-viewPosition.z, 1e-4);
+	if (radiusPixels < 1.0) {
+		gl_FragColor = vec4(1.0);
+		return;
+	}
+
+	float frame = float(frameIndex);
+	float sliceNoise = getNoise(gl_FragCoord.xy, frame);
+	float stepNoise = getNoise(gl_FragCoord.yx + vec2(11.0, 29.0), frame);
+
+	float visibility = 0.0;
+	for (int slice = 0; slice < SLICE_COUNT; slice++) {
+		float phi = (float(slice) + sliceNoise) * AO_PI / float(SLICE_COUNT);
+		vec2 direction = vec2(cos(phi), sin(phi));
+
+		// Slice plane through the view direction, angles measured from it towards +direction
+		vec3 sliceDirection = vec3(direction, 0.0);
+		vec3 orthoDirection = sliceDirection - dot(sliceDirection, viewDirection) * viewDirection;
+		vec3 axis = cross(sliceDirection, viewDirection);
+		vec3 projectedNormal = normal - axis * dot(normal, axis);
+		float projectedLength = length(projectedNormal);
+		if (projectedLength < 1e-4) {
+			continue;
+		}
+
+		float cosNormal = clamp(dot(projectedNormal, viewDirection) / projectedLength, -1.0, 1.0);
+		float normalAngle = sign(dot(orthoDirection, projectedNormal)) * acos(cosNormal);
+
+		for (int side = 0; side < 2; side++) {
+			float sideSign = side == 0 ? 1.0 : -1.0;
+			float horizonCos = -1.0;
+
+			for (int i = 0; i < MAX_SAMPLES; i++) {
+				if (i >= samples) {
+					break;
+				}
+
+				// Squared distribution puts more steps close to the pixel, at least one pixel away
+				float s = (float(i) + stepNoise) / float(samples);
+				float offsetPixels = max(s * s * radiusPixels, 1.0);
+				vec2 sampleUv = vUv + sideSign * direction * offsetPixels / drawnResolution;
+				if (any(lessThan(sampleUv, vec2(0.0))) || any(greaterThan(sampleUv, vec2(1.0)))) {
+					break;
+				}
+
+				vec3 delta = getViewPosition(sampleUv) - viewPosition;
+				float sampleDistance = length(delta);
+				if (sampleDistance < 1e-4) {
+					continue;
+				}
+
+				// Occluders fade out towards the radius (thin objects in front do not darken the background)
+				float falloff = clamp(2.0 - 2.0 * sampleDistance / radius, 0.0, 1.0);
+				horizonCos = max(horizonCos, mix(-1.0, dot(delta / sampleDistance, viewDirection), falloff));
+			}
+
+			// Horizon angle clamped to the hemisphere around the normal, then the cosine weighted arc
+			float horizon = sideSign * acos(horizonCos);
+			horizon = normalAngle + clamp(horizon - normalAngle, -AO_HALF_PI, AO_HALF_PI);
+			visibility +=
+				projectedLength * 0.25 * (cosNormal + 2.0 * horizon * sin(normalAngle) - cos(2.0 * horizon - normalAngle));
+		}
+	}
+
+	visibility = clamp(visibility / float(SLICE_COUNT), 0.0, 1.0);
+	gl_FragColor = vec4(vec3(pow(visibility, intensity)), 1.0);
+}
@@ -0,0 +1,69 @@
+// Temporal accumulation of the ambient occlusion: this frame's noisy GTAO, filtered over 3x3 pixels
+// of similar depth, blended with last frame's result reprojected through the camera motion.
+// Output: r = occlusion, g = linear view depth of the pixel (history disocclusion test)
+
+#include <packing>
+
+uniform sampler2D tAmbientOcclusion;  // This frame's GTAO (ambientOcclusion.frag.glsl)
+uniform sampler2D tDepth;             // Prepass depth (unjittered)
+uniform sampler2D tHistory;           // Last frame's output
+uniform vec2 uvScale;                 // Drawn part of this frame's targets (dynamic resolution)
+uniform vec2 historyUvScale;          // Drawn part of tHistory (previous frame scale)
+uniform vec2 texelSize;               // 1.0 / target size
+uniform vec2 cameraNearFar;
+uniform mat4 cameraProjectionMatrixInverse;
+uniform mat4 cameraMatrixWorld;
+uniform mat4 previousViewProjectionMatrix;
+uniform bool hasHistory;
+uniform float maxHistoryWeight;       // e.g. 0.9
+uniform float depthThreshold;         // Relative linear depth error, e.g. 0.05
+
+varying vec2 vUv;
+
+float getLinearDepth(float depth) {
+	return -perspectiveDepthToViewZ(depth, cameraNearFar.x, cameraNearFar.y);
+}
+
+void main() {
+	vec2 currentUv = vUv * uvScale;
+	float depth = texture2D(tDepth, currentUv).x;
+	float viewDepth = getLinearDepth(depth);
+
+	// Nothing drawn: unoccluded, and no history to keep
+	if (depth >= 1.0) {
+		gl_FragColor = vec4(1.0, viewDepth, 0.0, 1.0);
+		return;
+	}
+
+	// Depth-aware 3x3 filter of the noise pattern
+	float occlusion = 0.0;
+	float totalWeight = 0.0;
+	for (int y = -1; y <= 1; y++) {
+		for (int x = -1; x <= 1; x++) {
+			vec2 offset = vec2(float(x), float(y)) * texelSize;
+			float sampleDepth = getLinearDepth(texture2D(tDepth, currentUv + offset).x);
+			float weight = max(0.0, 1.0 - abs(sampleDepth - viewDepth) / (viewDepth * depthThreshold));
+			occlusion += texture2D(tAmbientOcclusion, currentUv + offset).r * weight;
+			totalWeight += weight;
+		}
+	}
+	occlusion /= max(totalWeight, 1e-4);
+
+	// Where this surface was last frame
+	vec4 viewPosition = cameraProjectionMatrixInverse * vec4(vec3(vUv, depth) * 2.0 - 1.0, 1.0);
+	vec4 worldPosition = cameraMatrixWorld * vec4(viewPosition.xyz / viewPosition.w, 1.0);
+	vec4 previousClip = previousViewProjectionMatrix * worldPosition;
+	vec2 historyUv = previousClip.xy / previousClip.w * 0.5 + 0.5;
+
+	if (hasHistory && all(greaterThanEqual(historyUv, vec2(0.0))) && all(lessThanEqual(historyUv, vec2(1.0)))) {
+		vec2 history = texture2D(tHistory, historyUv * historyUvScale).rg;
+
+		// Disocclusion: the depth this surface had last frame against the depth stored there
+		float depthError = abs(history.g - previousClip.w) / max(previousClip.w, 1e-3);
+		if (depthError < depthThreshold) {
+			occlusion = mix(occlusion, history.r, maxHistoryWeight);
+		}
+	}
+
+	gl_FragColor = vec4(occlusion, viewDepth, 0.0, 1.0);
+}
@@ -0,0 +1,19 @@
+// Alpha 1 marks pixels covered by a surface, the GTAO pass leaves the rest unoccluded
+
+uniform float opacity;
+uniform sampler2D opacityMap;
+uniform bool hasOpacityMap;
+
+varying vec3 vViewNormal;
+varying vec2 vUv;
+
+void main() {
+	// Same coverage as the velocity pass: mostly transparent surfaces neither occlude nor receive
+	float finalOpacity = opacity * (hasOpacityMap ? texture2D(opacityMap, vUv).a : 1.0);
+	if (finalOpacity < 0.5) {
+		discard;
+	}
+
+	vec3 normal = normalize(vViewNormal) * (gl_FrontFacing ? 1.0 : -1.0);
+	gl_FragColor = vec4(normal, 1.0);
+}
@@ -0,0 +1,23 @@
+// Ambient occlusion prepass: view-space normals (depth goes to the target's depth texture)
+
+varying vec3 vViewNormal;
+varying vec2 vUv;
+
+void main() {
+	vec4 localPosition = vec4(position, 1.0);
+	vec3 localNormal = normal;
+
+	#ifdef USE_WIND_SWAY
+		localNormal = applyWindSwayNormal(position, localNormal, windSwayBend, windSwayHeight);
+		localPosition.xyz = applyWindSway(position, windSwayBend, windSwayHeight);
+	#endif
+
+	#ifdef USE_INSTANCING
+		localPosition = instanceMatrix * localPosition;
+		localNormal = mat3(instanceMatrix) * localNormal;
+	#endif
+
+	vViewNormal = normalize(normalMatrix * localNormal);
+	vUv = uv;
+	gl_Position = projectionMatrix * modelViewMatrix * localPosition;
+}
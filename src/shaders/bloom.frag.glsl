@@ -0,0 +1,17 @@
+// Adds the bloom chain to the linear HDR color, before tone mapping
+
+uniform sampler2D tInput;
+uniform sampler2D tBloom;
+uniform float intensity;
+
+varying vec2 vUv;
+
+void main() {
+	vec4 source = texture2D(tInput, vUv);
+	vec3 bloom = texture2D(tBloom, vUv).rgb * intensity;
+
+	// Glow spilling over empty background (alpha 0 there) must still reach the canvas
+	float bloomAlpha = min(dot(bloom, vec3(0.2126, 0.7152, 0.0722)), 1.0);
+
+	gl_FragColor = vec4(source.rgb + bloom, max(source.a, bloomAlpha));
+}
@@ -0,0 +1,69 @@
+// One bloom mip from the next larger one (13-tap filter, Jimenez 2014)
+// The first level also removes fireflies (Karis average) and keeps only what is above the threshold
+
+uniform sampler2D tInput;
+uniform vec2 texelSize;     // 1.0 / source resolution
+uniform bool prefilter;     // First level: Karis average + threshold
+uniform float threshold;    // Brightness where bloom starts
+uniform float knee;         // Soft transition width below the threshold
+
+varying vec2 vUv;
+
+float getLuminance(vec3 color) {
+	return dot(color, vec3(0.2126, 0.7152, 0.0722));
+}
+
+// Weight of a 2x2 group, damped by its brightness so single hot pixels do not flicker
+float karisWeight(vec3 group) {
+	return 1.0 / (1.0 + getLuminance(group));
+}
+
+vec3 applyThreshold(vec3 color) {
+	// Quadratic soft knee, linear above threshold + knee
+	float brightness = max(max(color.r, color.g), color.b);
+	float soft = clamp(brightness - threshold + knee, 0.0, 2.0 * knee);
+	soft = soft * soft / (4.0 * knee + 1e-5);
+	float contribution = max(soft, brightness - threshold) / max(brightness, 1e-5);
+	return color * contribution;
+}
+
+void main() {
+	vec3 a = texture2D(tInput, vUv + texelSize * vec2(-2.0, 2.0)).rgb;
+	vec3 b = texture2D(tInput, vUv + texelSize * vec2(0.0, 2.0)).rgb;
+	vec3 c = texture2D(tInput, vUv + texelSize * vec2(2.0, 2.0)).rgb;
+	vec3 d = texture2D(tInput, vUv + texelSize * vec2(-2.0, 0.0)).rgb;
+	vec3 e = texture2D(tInput, vUv).rgb;
+	vec3 f = texture2D(tInput, vUv + texelSize * vec2(2.0, 0.0)).rgb;
+	vec3 g = texture2D(tInput, vUv + texelSize * vec2(-2.0, -2.0)).rgb;
+	vec3 h = texture2D(tInput, vUv + texelSize * vec2(0.0, -2.0)).rgb;
+	vec3 i = texture2D(tInput, vUv + texelSize * vec2(2.0, -2.0)).rgb;
+	vec3 j = texture2D(tInput, vUv + texelSize * vec2(-1.0, 1.0)).rgb;
+	vec3 k = texture2D(tInput, vUv + texelSize * vec2(1.0, 1.0)).rgb;
+	vec3 l = texture2D(tInput, vUv + texelSize * vec2(-1.0, -1.0)).rgb;
+	vec3 m = texture2D(tInput, vUv + texelSize * vec2(1.0, -1.0)).rgb;
+
+	// Five overlapping 2x2 groups: the center one counts half, the corner ones an eighth each
+	vec3 groups[5] = vec3[5](
+		(j + k + l + m) * 0.25,
+		(a + b + d + e) * 0.25,
+		(b + c + e + f) * 0.25,
+		(d + e + g + h) * 0.25,
+		(e + f + h + i) * 0.25
+	);
+	float weights[5] = float[5](0.5, 0.125, 0.125, 0.125, 0.125);
+
+	vec3 color = vec3(0.0);
+	float totalWeight = 0.0;
+	for (int n = 0; n < 5; n++) {
+		float weight = prefilter ? weights[n] * karisWeight(groups[n]) : weights[n];
+		color += groups[n] * weight;
+		totalWeight += weight;
+	}
+	color /= totalWeight;
+
+	if (prefilter) {
+		color = applyThreshold(color);
+	}
+
+	gl_FragColor = vec4(color, 1.0);
+}
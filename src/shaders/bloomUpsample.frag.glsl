@@ -0,0 +1,24 @@
+// One bloom mip from the next smaller one (3x3 tent filter), blended over this level's downsample
+
+uniform sampler2D tInput;   // This level's downsample
+uniform sampler2D tLower;   // Next smaller level, already upsampled
+uniform vec2 texelSize;     // 1.0 / resolution of tLower
+uniform float radius;       // Share of the wider levels (0 = tight glow, 1 = wide glow)
+
+varying vec2 vUv;
+
+void main() {
+	vec3 lower = texture2D(tLower, vUv + texelSize * vec2(-1.0, 1.0)).rgb;
+	lower += texture2D(tLower, vUv + texelSize * vec2(0.0, 1.0)).rgb * 2.0;
+	lower += texture2D(tLower, vUv + texelSize * vec2(1.0, 1.0)).rgb;
+	lower += texture2D(tLower, vUv + texelSize * vec2(-1.0, 0.0)).rgb * 2.0;
+	lower += texture2D(tLower, vUv).rgb * 4.0;
+	lower += texture2D(tLower, vUv + texelSize * vec2(1.0, 0.0)).rgb * 2.0;
+	lower += texture2D(tLower, vUv + texelSize * vec2(-1.0, -1.0)).rgb;
+	lower += texture2D(tLower, vUv + texelSize * vec2(0.0, -1.0)).rgb * 2.0;
+	lower += texture2D(tLower, vUv + texelSize * vec2(1.0, -1.0)).rgb;
+	lower /= 16.0;
+
+	vec3 current = texture2D(tInput, vUv).rgb;
+	gl_FragColor = vec4(mix(current, lower, radius), 1.0);
+}
@@ -0,0 +1,14 @@
+// Screen-space ambient occlusion of the surface drawn at this pixel (see AmbientOcclusionBlendMaterial).
+// The accumulated occlusion is drawn in the same dynamic resolution sub-viewport as the color buffer.
+
+uniform sampler2D tAmbientOcclusion;
+uniform bool useAmbientOcclusion;
+
+float getAmbientOcclusion() {
+    if (!useAmbientOcclusion) {
+        return 1.0;
+    }
+
+    ivec2 coord = min(ivec2(gl_FragCoord.xy), textureSize(tAmbientOcclusion, 0) - 1);
+    return texelFetch(tAmbientOcclusion, coord, 0).r;
+}
@@ -0,0 +1,22 @@
+// Signed thin lens circle of confusion from scene depth, as a diameter in full resolution pixels
+// (negative in front of the focus plane). Scene units are meters.
+
+#include <packing>
+
+uniform sampler2D tDepth;
+uniform vec2 depthUvScale;      // Drawn part of tDepth (dynamic resolution)
+uniform vec2 cameraNearFar;
+uniform sampler2D tFocus;       // 1x1, focus distance along the view axis
+uniform float cocScale;         // focalLength^2 / (fStop * filmHeight) * resolution.y
+uniform float lensFocalLength;  // In meters
+uniform float maxCoC;           // Largest diameter in pixels
+
+float getViewDepth(vec2 uv) {
+	return -perspectiveDepthToViewZ(texture2D(tDepth, uv * depthUvScale).x, cameraNearFar.x, cameraNearFar.y);
+}
+
+float getCoC(float viewDepth) {
+	float focus = texture2D(tFocus, vec2(0.5)).r;
+	float coc = cocScale * (viewDepth - focus) / (viewDepth * max(focus - lensFocalLength, 1e-4));
+	return clamp(coc, -maxCoC, maxCoC);
+}
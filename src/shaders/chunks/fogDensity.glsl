@@ -0,0 +1,200 @@
+// Fog density shared by every pass that evaluates the participating medium
+// (fog ray-march, occupancy grid). Uniforms are owned by FogMaterial.
+
+uniform float fogDensity;                  // global density multiplier
+uniform float time;
+uniform float animSpeed;                   // Animation speed (warp speed)
+
+// Baked noise (NoiseTextureFactory), sampled instead of procedural value noise when enabled
+uniform sampler3D tNoise;                  // R: Perlin-Worley, GBA: Worley at 2x/4x/8x frequency
+uniform sampler3D tCurlNoise;              // RGB: curl vector encoded as v * 0.5 + 0.5
+uniform bool useBakedNoise;
+
+// Wind (WindField): noise is advected by the integrated offset, turbulence scales the domain warp
+uniform vec3 windOffset;
+uniform float windTurbulence;
+
+// Fog volumes (see FogVolume.ts)
+#define FOG_SHAPE_BOX 0
+#define FOG_SHAPE_ELLIPSOID 1
+#define FOG_SHAPE_HEIGHT_LAYER 2
+
+uniform int fogVolumeCount;
+uniform int fogVolumeShapes[MAX_FOG_VOLUMES];
+uniform mat4 fogVolumeWorldToLocal[MAX_FOG_VOLUMES];
+uniform vec4 fogVolumeParams[MAX_FOG_VOLUMES];   // x: density, y: noise scale, z: noise strength, w: height falloff
+uniform vec3 fogVolumeAlbedo[MAX_FOG_VOLUMES];
+
+// ------------- Noise utilities -------------
+
+float hash(vec3 p) {
+    p = fract(p * 0.3183099 + vec3(0.1, 0.2, 0.3));
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+
+float valueNoise(vec3 p) {
+    vec3 i = floor(p);
+    vec3 f = fract(p);
+
+    float n000 = hash(i + vec3(0.0, 0.0, 0.0));
+    float n100 = hash(i + vec3(1.0, 0.0, 0.0));
+    float n010 = hash(i + vec3(0.0, 1.0, 0.0));
+    float n110 = hash(i + vec3(1.0, 1.0, 0.0));
+    float n001 = hash(i + vec3(0.0, 0.0, 1.0));
+    float n101 = hash(i + vec3(1.0, 0.0, 1.0));
+    float n011 = hash(i + vec3(0.0, 1.0, 1.0));
+    float n111 = hash(i + vec3(1.0, 1.0, 1.0));
+
+    vec3 u = f * f * (3.0 - 2.0 * f);
+
+    float nx00 = mix(n000, n100, u.x);
+    float nx10 = mix(n010, n110, u.x);
+    float nx01 = mix(n001, n101, u.x);
+    float nx11 = mix(n011, n111, u.x);
+
+    float nxy0 = mix(nx00, nx10, u.y);
+    float nxy1 = mix(nx01, nx11, u.y);
+
+    return mix(nxy0, nxy1, u.z);
+}
+
+float domainWarpedNoise(vec3 p) {
+    // Tuned for small (~2u) scene, adjust to taste
+    float baseScale = 2.5;
+    float warpScale = 4.0;
+    float warpStrength = 0.4 * (0.6 + windTurbulence); // 0.4 at the default turbulence
+
+    vec3 q = p * warpScale + vec3(time * 0.3, time * 0.25, time * 0.2);
+    vec3 warp = vec3(
+        valueNoise(q + vec3(13.1, 7.7, 3.1)),
+        valueNoise(q + vec3(5.2, 17.3, 9.2)),
+        valueNoise(q + vec3(11.7, 3.4, 21.1))
+    ) * warpStrength;
+
+    vec3 finalP = p * baseScale + warp + vec3(0.0, time * animSpeed, 0.0);
+
+    float n =
+        0.6 * valueNoise(finalP) +
+        0.3 * valueNoise(finalP * 2.1) +
+        0.1 * valueNoise(finalP * 4.3);
+
+    return clamp(n, 0.0, 1.0);
+}
+
+// Noise cells per texture tile, must match the period the textures were baked with
+const float NOISE_TEXTURE_PERIOD = 4.0;
+
+float bakedDomainWarpedNoise(vec3 p) {
+    // Same scales as domainWarpedNoise, two texture fetches instead of six value noise evaluations
+    float baseScale = 2.5;
+    float warpScale = 4.0;
+    float warpStrength = 0.4 * (0.6 + windTurbulence); // 0.4 at the default turbulence
+
+    vec3 q = p * warpScale + vec3(time * 0.3, time * 0.25, time * 0.2);
+    vec3 warp = (texture(tCurlNoise, q / NOISE_TEXTURE_PERIOD).xyz * 2.0 - 1.0) * warpStrength;
+
+    vec3 finalP = p * baseScale + warp + vec3(0.0, time * animSpeed, 0.0);
+
+    vec4 noise = texture(tNoise, finalP / NOISE_TEXTURE_PERIOD);
+    float n =
+        0.6 * noise.r +
+        0.3 * noise.g +
+        0.1 * noise.b;
+
+    return clamp(n, 0.0, 1.0);
+}
+
+float fogNoise(vec3 p) {
+    return useBakedNoise ? bakedDomainWarpedNoise(p) : domainWarpedNoise(p);
+}
+
+// ------------- Fog volumes -------------
+// Intersections run in volume-local space. The local ray direction is not
+// normalized, so the returned entry/exit distances stay in world units.
+// A miss returns an empty interval (x > y).
+
+vec2 intersectUnitBox(vec3 ro, vec3 rd) {
+    vec3 safeRd = mix(rd, vec3(1e-6), lessThan(abs(rd), vec3(1e-6)));
+    vec3 tA = (vec3(-1.0) - ro) / safeRd;
+    vec3 tB = (vec3(1.0) - ro) / safeRd;
+    vec3 tMin = min(tA, tB);
+    vec3 tMax = max(tA, tB);
+    return vec2(max(max(tMin.x, tMin.y), tMin.z), min(min(tMax.x, tMax.y), tMax.z));
+}
+
+vec2 intersectUnitSphere(vec3 ro, vec3 rd) {
+    float a = dot(rd, rd);
+    float b = dot(ro, rd);
+    float c = dot(ro, ro) - 1.0;
+    float discriminant = b * b - a * c;
+
+    if (discriminant < 0.0) {
+        return vec2(1e9, -1e9);
+    }
+
+    float sqrtDisc = sqrt(discriminant);
+    return vec2((-b - sqrtDisc) / a, (-b + sqrtDisc) / a);
+}
+
+vec2 intersectHeightLayer(vec3 ro, vec3 rd) {
+    // Half-space below local y = 1
+    if (abs(rd.y) < 1e-6) {
+        return ro.y <= 1.0 ? vec2(-1e9, 1e9) : vec2(1e9, -1e9);
+    }
+
+    float tTop = (1.0 - ro.y) / rd.y;
+    return rd.y > 0.0 ? vec2(-1e9, tTop) : vec2(tTop, 1e9);
+}
+
+vec2 intersectFogVolume(int index, vec3 ro, vec3 rd) {
+    mat4 worldToLocal = fogVolumeWorldToLocal[index];
+    vec3 localRo = (worldToLocal * vec4(ro, 1.0)).xyz;
+    vec3 localRd = (worldToLocal * vec4(rd, 0.0)).xyz;
+
+    int shape = fogVolumeShapes[index];
+    if (shape == FOG_SHAPE_BOX) {
+        return intersectUnitBox(localRo, localRd);
+    } else if (shape == FOG_SHAPE_ELLIPSOID) {
+        return intersectUnitSphere(localRo, localRd);
+    }
+    return intersectHeightLayer(localRo, localRd);
+}
+
+float sampleFogVolumeDensity(int index, vec3 worldPos) {
+    vec4 params = fogVolumeParams[index];
+
+    float n = fogNoise((worldPos - windOffset) * params.y);
+    float density = params.x * mix(1.0, pow(n, 0.7), params.z);
+
+    if (fogVolumeShapes[index] == FOG_SHAPE_HEIGHT_LAYER) {
+        float localY = (fogVolumeWorldToLocal[index] * vec4(worldPos, 1.0)).y;
+        density *= exp(-params.w * max(localY, 0.0));
+    }
+
+    return fogDensity * density;
+}
+
+bool isInsideFogVolume(int index, vec3 worldPos) {
+    vec3 localPos = (fogVolumeWorldToLocal[index] * vec4(worldPos, 1.0)).xyz;
+
+    int shape = fogVolumeShapes[index];
+    if (shape == FOG_SHAPE_BOX) {
+        return all(lessThanEqual(abs(localPos), vec3(1.0)));
+    } else if (shape == FOG_SHAPE_ELLIPSOID) {
+        return dot(localPos, localPos) <= 1.0;
+    }
+    return localPos.y <= 1.0;
+}
+
+// Total density of every volume containing the point
+float sampleFogDensity(vec3 worldPos) {
+    float density = 0.0;
+    for (int v = 0; v < MAX_FOG_VOLUMES; v++) {
+        if (v >= fogVolumeCount) break;
+        if (isInsideFogVolume(v, worldPos)) {
+            density += sampleFogVolumeDensity(v, worldPos);
+        }
+    }
+    return density;
+}
@@ -0,0 +1,22 @@
+// Interleaved fog rendering shared by the fog ray-march and the fog blend pass.
+// Only one pixel slot out of interleaveFactor is marched per frame, the others are
+// rebuilt from reprojected history (see fogBlend.frag.glsl).
+
+uniform int interleaveFactor;              // 1 = every pixel, 2 = checkerboard, 4 = one pixel per 2x2 block
+uniform int interleavePhase;               // slot marched this frame, in [0, interleaveFactor)
+
+int getInterleaveSlot(ivec2 pixel) {
+    if (interleaveFactor == 2) {
+        return (pixel.x + pixel.y) & 1;
+    }
+    if (interleaveFactor == 4) {
+        // Diagonal neighbour next, so two consecutive frames already form a checkerboard
+        int blockIndex = (pixel.x & 1) + (pixel.y & 1) * 2;
+        return blockIndex == 0 ? 0 : blockIndex == 3 ? 1 : blockIndex == 1 ? 2 : 3;
+    }
+    return 0;
+}
+
+bool isInterleavedPixelMarched(ivec2 pixel) {
+    return getInterleaveSlot(pixel) == interleavePhase;
+}
@@ -0,0 +1,33 @@
+// Fog transmittance towards the directional light (opacity shadow map, see FogShadowMaterial)
+// RGBA holds the cumulative optical depth at 1/4, 2/4, 3/4 and 4/4 of the light-space depth range.
+
+uniform sampler2D tFogShadow;
+uniform mat4 fogShadowMatrix;              // world -> [0, 1] light-space uv + depth
+uniform bool useFogShadow;
+
+float getFogShadowTransmittance(vec3 worldPos) {
+    if (!useFogShadow) {
+        return 1.0;
+    }
+
+    vec3 coord = (fogShadowMatrix * vec4(worldPos, 1.0)).xyz;
+    if (any(lessThan(coord.xy, vec2(0.0))) || any(greaterThan(coord.xy, vec2(1.0)))) {
+        return 1.0;
+    }
+
+    // Piecewise linear optical depth between layers, zero at the light-facing end
+    vec4 layers = texture2D(tFogShadow, coord.xy);
+    float depth = clamp(coord.z, 0.0, 1.0) * 4.0;
+    float opticalDepth;
+    if (depth < 1.0) {
+        opticalDepth = layers.x * depth;
+    } else if (depth < 2.0) {
+        opticalDepth = mix(layers.x, layers.y, depth - 1.0);
+    } else if (depth < 3.0) {
+        opticalDepth = mix(layers.y, layers.z, depth - 2.0);
+    } else {
+        opticalDepth = mix(layers.z, layers.w, depth - 3.0);
+    }
+
+    return exp(-opticalDepth);
+}
@@ -0,0 +1,20 @@
+// Wind bending of a mesh rooted at its local origin (see WindSway): the tip at height moves by bend
+// (local xz), lower vertices quadratically less.
+
+#ifdef USE_WIND_SWAY
+    uniform vec3 windSwayBend;
+    uniform float windSwayHeight;
+    uniform vec3 windSwayPreviousBend; // Last frame's bend, for motion vectors
+#endif
+
+vec3 applyWindSway(vec3 position, vec3 bend, float height) {
+    float heightFactor = position.y / height;
+    return position + vec3(bend.x, 0.0, bend.z) * heightFactor * heightFactor;
+}
+
+// The bend shears xz along y, the normal follows the inverse transpose of that shear
+vec3 applyWindSwayNormal(vec3 position, vec3 normal, vec3 bend, float height) {
+    vec2 slope = 2.0 * bend.xz * position.y / (height * height);
+    normal.y -= dot(slope, normal.xz);
+    return normal;
+}
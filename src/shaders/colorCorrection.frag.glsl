@@ -0,0 +1,29 @@
+// Runs on the linear HDR composite, before tone mapping
+
+uniform sampler2D tInput;
+uniform float exposure;
+uniform float contrast;
+uniform float saturation;
+uniform float brightness;
+
+varying vec2 vUv;
+
+// Scene-referred middle gray, the contrast pivot
+const float MIDDLE_GRAY = 0.18;
+
+void main() {
+	vec4 source = texture2D(tInput, vUv);
+	vec3 color = max(source.rgb, 0.0);
+
+	// Exposure and brightness (both multiplicative in linear light)
+	color *= exposure * brightness;
+
+	// Contrast (slope around middle gray in log2 space)
+	color = MIDDLE_GRAY * exp2((log2(max(color, 1e-6)) - log2(MIDDLE_GRAY)) * contrast);
+
+	// Saturation (Rec. 709 luminance of linear color)
+	float luminance = dot(color, vec3(0.2126, 0.7152, 0.0722));
+	color = max(mix(vec3(luminance), color, saturation), 0.0);
+
+	gl_FragColor = vec4(color, source.a);
+}
@@ -1,18 +1,29 @@
+#include <packing>
+
 uniform sampler2D tColor;
 uniform sampler2D tFog;
+uniform sampler2D tFogTransmittance;  // Per-channel transmittance (second attachment of the fog target)
+uniform sampler2D tDepth;      // Full resolution scene depth
+uniform sampler2D tFogDepth;   // Downsampled depth the fog was rendered with
 uniform vec3 backgroundColor;  // Background color for areas without geometry
 uniform vec2 texelSize;
 uniform float fogBlurRadius;
 
-// Vignette
-uniform float vignetteIntensity;
-uniform float vignetteRadius;
+// Drawn part of each input (dynamic resolution sub-viewports)
+uniform vec2 colorUvScale;     // tColor
+uniform vec2 depthUvScale;     // tDepth
+uniform vec2 fogUvScale;       // tFog, tFogDepth
+
+// Depth-aware fog upsampling
+uniform vec2 fogTexelSize;             // 1.0 / fog resolution
+uniform vec2 cameraNearFar;            // [near, far]
+uniform bool depthAwareUpsample;
+uniform float upsampleDepthThreshold;  // relative depth difference treated as an edge
 
-// Color correction
-uniform float exposure;
-uniform float contrast;
-uniform float saturation;
-uniform float brightness;
+// Fog compositing (see FogCompositeMode in ComposeMaterial.ts)
+#define FOG_COMPOSITE_ADDITIVE 0
+#define FOG_COMPOSITE_TRANSMITTANCE 1
+uniform int fogCompositeMode;
 
 varying vec2 vUv;
 
@@ -32,7 +43,7 @@ vec4 blurFog(sampler2D tex, vec2 uv, float radius) {
 		for (int y = -4; y <= 4; y++) {
 			if (abs(x) > iRadius || abs(y) > iRadius) continue;
 
-			vec2 offset = vec2(float(x), float(y)) * texelSize;
+			vec2 offset = vec2(float(x), float(y)) * texelSize * fogUvScale;
 			float dist = length(vec2(float(x), float(y)));
 			float weight = exp(-dist * dist / (2.0 * r * r + 0.1));
 
@@ -45,51 +56,105 @@ vec4 blurFog(sampler2D tex, vec2 uv, float radius) {
 	return color;
 }
 
-vec3 applyColorCorrection(vec3 color) {
-	// Exposure
-	color *= exposure;
+float getLinearDepth(sampler2D depthTex, vec2 uv) {
+	return -perspectiveDepthToViewZ(texture2D(depthTex, uv).x, cameraNearFar.x, cameraNearFar.y);
+}
+
+// Nearest-depth upsampling: bilinear where the 2x2 low-res footprint matches the scene depth,
+// otherwise take the low-res texel whose depth is closest to the full resolution depth
+vec4 upsampleFogNearestDepth(sampler2D tex, vec2 uv, float sceneDepth) {
+	vec2 lowResPos = uv / fogTexelSize - 0.5;
+	vec2 baseUv = (floor(lowResPos) + 0.5) * fogTexelSize;
+
+	float maxError = 0.0;
+	float minError = 1e9;
+	vec2 nearestUv = baseUv;
+
+	for (int i = 0; i < 4; i++) {
+		vec2 tapUv = baseUv + vec2(float(i % 2), float(i / 2)) * fogTexelSize;
+		float tapDepth = getLinearDepth(tFogDepth, tapUv);
+		float error = abs(tapDepth - sceneDepth) / max(sceneDepth, 1e-3);
+
+		maxError = max(maxError, error);
+		if (error < minError) {
+			minError = error;
+			nearestUv = tapUv;
+		}
+	}
+
+	// Sampling a texel center with linear filtering returns that texel only
+	return maxError < upsampleDepthThreshold ? texture2D(tex, uv) : texture2D(tex, nearestUv);
+}
 
-	// Brightness
-	color += brightness - 1.0;
+// Joint bilateral blur: gaussian spatial weights times a range weight from the low-res depth,
+// so fog does not bleed across silhouettes
+vec4 bilateralBlurFog(sampler2D tex, vec2 uv, float radius, float sceneDepth) {
+	vec4 color = vec4(0.0);
+	float totalWeight = 0.0;
 
-	// Contrast (centered around 0.5)
-	color = (color - 0.5) * contrast + 0.5;
+	float r = min(radius, 4.0);
+	int iRadius = int(r);
 
-	// Saturation
-	float gray = dot(color, vec3(0.299, 0.587, 0.114));
-	color = mix(vec3(gray), color, saturation);
+	for (int x = -4; x <= 4; x++) {
+		for (int y = -4; y <= 4; y++) {
+			if (abs(x) > iRadius || abs(y) > iRadius) continue;
 
-	return color;
+			vec2 offset = vec2(float(x), float(y)) * texelSize * fogUvScale;
+			float dist = length(vec2(float(x), float(y)));
+			float spatialWeight = exp(-dist * dist / (2.0 * r * r + 0.1));
+
+			float tapDepth = getLinearDepth(tFogDepth, uv + offset);
+			float error = abs(tapDepth - sceneDepth) / max(sceneDepth, 1e-3) / upsampleDepthThreshold;
+			float rangeWeight = exp(-error * error);
+
+			float weight = spatialWeight * rangeWeight;
+			color += texture2D(tex, uv + offset) * weight;
+			totalWeight += weight;
+		}
+	}
+
+	// Every tap rejected (thin feature missing from low-res depth) - fall back to nearest depth
+	if (totalWeight < 1e-4) {
+		return upsampleFogNearestDepth(tex, uv, sceneDepth);
+	}
+
+	return color / totalWeight;
 }
 
-float calculateVignette(vec2 uv) {
-	vec2 center = vec2(0.5, 0.5);
-	float dist = distance(uv, center);
-	// Create vignette: 1.0 at center, 0.0 at edges
-	float vignette = 1.0 - smoothstep(vignetteRadius * 0.5, vignetteRadius, dist);
-	// Apply intensity: 1.0 when intensity is 0, darker when intensity increases
-	return 1.0 - vignetteIntensity * (1.0 - vignette);
+vec4 upsampleFog(sampler2D tex, vec2 uv, vec2 depthUv, float radius) {
+	if (!depthAwareUpsample) {
+		return blurFog(tex, uv, radius);
+	}
+
+	float sceneDepth = getLinearDepth(tDepth, depthUv);
+	if (radius <= 0.0) {
+		return upsampleFogNearestDepth(tex, uv, sceneDepth);
+	}
+	return bilateralBlurFog(tex, uv, radius, sceneDepth);
 }
 
 void main() {
-	vec4 color = texture2D(tColor, vUv);
+	vec4 color = texture2D(tColor, vUv * colorUvScale);
 
-	// Blur fog buffer if blur radius > 0
-	vec4 fog = blurFog(tFog, vUv, fogBlurRadius);
+	// Upsample (and blur if blur radius > 0) fog buffer
+	vec4 fog = upsampleFog(tFog, vUv * fogUvScale, vUv * depthUvScale, fogBlurRadius);
 
 	// Use background color where there's no geometry (alpha = 0)
 	vec3 sceneColor = color.a > 0.001 ? color.rgb : backgroundColor;
 
-	// Compose fog over scene using additive blending for volumetric fog
-	// fog.rgb contains scattered light, fog.a is fog opacity
-	vec3 finalColor = sceneColor + fog.rgb;
-
-	// Apply color correction
-	finalColor = applyColorCorrection(finalColor);
+	// fog.rgb contains scattered light, fog.a is fog opacity (1 - average transmittance)
+	vec3 finalColor;
+	if (fogCompositeMode == FOG_COMPOSITE_TRANSMITTANCE) {
+		// Scene seen through the medium: attenuate every channel by its transmittance (colored absorption),
+		// then add in-scattered light. Upsampled like the fog so both match at silhouettes
+		vec3 transmittance = upsampleFog(tFogTransmittance, vUv * fogUvScale, vUv * depthUvScale, fogBlurRadius).rgb;
+		finalColor = sceneColor * transmittance + fog.rgb;
+	} else {
+		// Legacy: additive blending for volumetric fog
+		finalColor = sceneColor + fog.rgb;
+	}
 
-	// Apply vignette
-	float vignette = calculateVignette(vUv);
-	finalColor *= vignette;
+	// Color correction, vignette and custom effects run afterwards as post-process passes
 
 	// Alpha: use scene alpha if present, otherwise fog alpha for background areas
 	float finalAlpha = max(color.a, fog.a);
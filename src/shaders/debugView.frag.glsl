@@ -0,0 +1,53 @@
+#include <packing>
+
+// Debug views (see DEBUG_VIEW_IDS in DebugViewMaterial.ts)
+#define DEBUG_VIEW_DEPTH 1
+#define DEBUG_VIEW_DITHER_MASK 2
+#define DEBUG_VIEW_FOG_CURRENT 3
+#define DEBUG_VIEW_FOG_HISTORY 4
+#define DEBUG_VIEW_FOG_ALPHA 5
+#define DEBUG_VIEW_VELOCITY 6
+#define DEBUG_VIEW_FOG_SHADOW 7
+#define DEBUG_VIEW_AMBIENT_OCCLUSION 8
+
+uniform sampler2D tInput;
+uniform vec2 inputUvScale;     // Drawn part of tInput (dynamic resolution sub-viewport)
+uniform int debugView;
+uniform int jitterIndex;       // Stochastic depth jitter of the displayed frame
+uniform vec2 resolution;       // Downsampled target size the dither mask is laid out in
+uniform vec2 cameraNearFar;    // [near, far]
+uniform float depthRange;      // View distance shown as white
+uniform float velocityScale;   // UV motion to color
+
+varying vec2 vUv;
+
+void main() {
+    vec4 value = texture2D(tInput, vUv * inputUvScale);
+    vec3 color;
+
+    if (debugView == DEBUG_VIEW_DEPTH) {
+        // Linear view distance, 0 = near, 1 = depthRange and beyond
+        float viewZ = -perspectiveDepthToViewZ(value.x, cameraNearFar.x, cameraNearFar.y);
+        color = vec3(clamp(viewZ / depthRange, 0.0, 1.0));
+    } else if (debugView == DEBUG_VIEW_DITHER_MASK) {
+        // Threshold transparent surfaces are compared against in the depth buffer (kept where opacity >= threshold),
+        // laid out over the drawn sub-viewport of the depth target
+        color = vec3(ditherPattern(floor(vUv * resolution * inputUvScale), jitterIndex));
+    } else if (debugView == DEBUG_VIEW_FOG_ALPHA) {
+        color = vec3(value.a);
+    } else if (debugView == DEBUG_VIEW_VELOCITY) {
+        // Signed UV motion around mid gray: red = horizontal, green = vertical
+        color = vec3(clamp(0.5 + value.xy * velocityScale, 0.0, 1.0), 0.5);
+    } else if (debugView == DEBUG_VIEW_FOG_SHADOW) {
+        // Transmittance through the whole fog depth range towards the light
+        color = vec3(exp(-value.w));
+    } else if (debugView == DEBUG_VIEW_AMBIENT_OCCLUSION) {
+        // Accumulated visibility, white = unoccluded
+        color = vec3(value.r);
+    } else {
+        // Fog in-scattered light
+        color = value.rgb;
+    }
+
+    gl_FragColor = vec4(color, 1.0);
+}
@@ -0,0 +1,18 @@
+// Depth of field composite: the sharp image where in focus, the half resolution gather elsewhere
+// (and wherever out-of-focus foreground spreads)
+
+uniform sampler2D tInput;
+uniform sampler2D tBlur;
+
+varying vec2 vUv;
+
+void main() {
+	vec4 sharp = texture2D(tInput, vUv);
+	vec4 blurred = texture2D(tBlur, vUv);
+
+	float coc = max(abs(getCoC(getViewDepth(vUv))), blurred.a);
+	// Below ~1 pixel the blur is invisible, and the half resolution gather would soften the image
+	float blend = smoothstep(1.0, 3.0, coc);
+
+	gl_FragColor = vec4(mix(sharp.rgb, blurred.rgb, blend), sharp.a);
+}
@@ -0,0 +1,45 @@
+// Depth of field gather at half resolution (golden angle spiral, scatter-as-gather)
+// Each sample covers the center if its own CoC reaches it; samples behind the center are limited to the
+// center's CoC, so a blurred background never bleeds over sharper foreground.
+// Alpha holds how strongly out-of-focus foreground spreads over this pixel (full resolution pixels).
+
+uniform sampler2D tInput;   // Prefiltered color, alpha = signed CoC
+uniform vec2 texelSize;     // 1.0 / half resolution
+uniform float maxCoC;
+
+varying vec2 vUv;
+
+const float GOLDEN_ANGLE = 2.39996323;
+// Radius step between rings, in half resolution pixels (smaller = more samples)
+const float RADIUS_STEP = 0.5;
+
+void main() {
+	vec4 center = texture2D(tInput, vUv);
+	// Diameter in full resolution pixels to radius in half resolution pixels
+	float centerRadius = abs(center.a) * 0.25;
+	float maxRadius = maxCoC * 0.25;
+
+	vec3 color = center.rgb;
+	float total = 1.0;
+	float foreground = 0.0;
+
+	float radius = RADIUS_STEP;
+	for (float angle = 0.0; radius < maxRadius; angle += GOLDEN_ANGLE) {
+		vec4 tap = texture2D(tInput, vUv + vec2(cos(angle), sin(angle)) * radius * texelSize);
+		float tapRadius = abs(tap.a) * 0.25;
+		if (tap.a > center.a) {
+			tapRadius = min(tapRadius, centerRadius * 2.0);
+		}
+
+		float coverage = smoothstep(radius - 0.5, radius + 0.5, tapRadius);
+		color += mix(color / total, tap.rgb, coverage);
+		total += 1.0;
+		if (tap.a < 0.0) {
+			foreground = max(foreground, coverage * -tap.a);
+		}
+
+		radius += RADIUS_STEP / radius;
+	}
+
+	gl_FragColor = vec4(color / total, foreground);
+}
@@ -0,0 +1,50 @@
+// Focus distance for the depth of field (1x1 target), eased towards the autofocus point over frames
+
+#include <packing>
+
+#define FOCUS_MANUAL 0
+#define FOCUS_CURSOR 1
+#define FOCUS_TARGET 2
+
+uniform sampler2D tDepth;
+uniform vec2 depthUvScale;
+uniform vec2 cameraNearFar;
+uniform vec2 texelSize;          // 1.0 / screen resolution
+uniform sampler2D tPreviousFocus;
+uniform bool hasHistory;
+uniform int focusMode;
+uniform float focusDistance;     // Manual focus
+uniform vec2 focusUv;            // Cursor position
+uniform float focusTargetDepth;  // Orbit target depth along the view axis
+uniform float adaptation;        // Share of the new focus taken per frame
+
+varying vec2 vUv;
+
+float getViewDepth(vec2 uv) {
+	vec2 depthUv = clamp(uv, vec2(0.0), vec2(1.0)) * depthUvScale;
+	return -perspectiveDepthToViewZ(texture2D(tDepth, depthUv).x, cameraNearFar.x, cameraNearFar.y);
+}
+
+void main() {
+	float previous = texture2D(tPreviousFocus, vec2(0.5)).r;
+
+	float focus = focusDistance;
+	if (focusMode == FOCUS_CURSOR) {
+		// Nearest surface in a small cross under the cursor, so thin branches can be picked
+		vec2 offset = texelSize * 4.0;
+		float nearest = getViewDepth(focusUv);
+		nearest = min(nearest, getViewDepth(focusUv + vec2(offset.x, 0.0)));
+		nearest = min(nearest, getViewDepth(focusUv - vec2(offset.x, 0.0)));
+		nearest = min(nearest, getViewDepth(focusUv + vec2(0.0, offset.y)));
+		nearest = min(nearest, getViewDepth(focusUv - vec2(0.0, offset.y)));
+
+		// Nothing but sky under the cursor: keep the current focus
+		bool sky = nearest > cameraNearFar.y * 0.999;
+		focus = sky ? (hasHistory ? previous : focusDistance) : nearest;
+	} else if (focusMode == FOCUS_TARGET) {
+		focus = focusTargetDepth;
+	}
+	focus = max(focus, cameraNearFar.x);
+
+	gl_FragColor = vec4(hasHistory ? mix(previous, focus, adaptation) : focus, 0.0, 0.0, 1.0);
+}
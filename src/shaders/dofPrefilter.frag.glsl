@@ -0,0 +1,20 @@
+// Half resolution color and circle of confusion for the depth of field gather
+
+uniform sampler2D tInput;
+uniform vec2 texelSize;     // 1.0 / full resolution
+
+varying vec2 vUv;
+
+void main() {
+	// The bilinear tap between four full resolution pixels averages them
+	vec3 color = texture2D(tInput, vUv).rgb;
+
+	// Of the four pixels, keep the CoC of the nearest one so foreground edges stay blurred at half resolution
+	vec2 offset = texelSize * 0.5;
+	float viewDepth = getViewDepth(vUv + vec2(-offset.x, -offset.y));
+	viewDepth = min(viewDepth, getViewDepth(vUv + vec2(offset.x, -offset.y)));
+	viewDepth = min(viewDepth, getViewDepth(vUv + vec2(-offset.x, offset.y)));
+	viewDepth = min(viewDepth, getViewDepth(vUv + vec2(offset.x, offset.y)));
+
+	gl_FragColor = vec4(color, getCoC(viewDepth));
+}
@@ -5,6 +5,7 @@
 // Assumes standard perspective depth (Three.js DepthTexture)
 
 uniform sampler2D tDepth;
+uniform vec2 depthUvScale;                 // drawn part of the depth target (dynamic resolution sub-viewport)
 
 uniform mat4 cameraProjectionMatrixInverse;
 uniform mat4 viewMatrixInverse;            // camera.matrixWorld
@@ -13,12 +14,7 @@ uniform mat4 directionalShadowMatrix;
 uniform vec2 cameraNearFar;                // [near, far]
 uniform vec2 resolution;
 
-uniform float fogDensity;                  // base density
 uniform float maxFogDistance;              // clamp for tiny scene, e.g. 2.0
-uniform vec3 fogSphereCenter;              // Fog volume sphere center
-uniform float fogSphereRadius;             // Fog volume sphere radius
-uniform float time;
-uniform float animSpeed;                   // Animation speed (warp speed)
 
 uniform vec3 lightDirection;               // normalized dir FROM light TO scene (i.e. -DirectionalLight.worldDirection)
 uniform vec3 lightColor;
@@ -32,66 +28,56 @@ uniform float shadowIntensity;
 uniform float shadowBias;
 uniform float shadowRadius;
 uniform float fogSteps;
-uniform float rayNoiseScale;
 
-varying vec2 vUv;
-
-// ------------- Noise utilities -------------
-
-float hash(vec3 p) {
-    p = fract(p * 0.3183099 + vec3(0.1, 0.2, 0.3));
-    p *= 17.0;
-    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
-}
-
-float valueNoise(vec3 p) {
-    vec3 i = floor(p);
-    vec3 f = fract(p);
-
-    float n000 = hash(i + vec3(0.0, 0.0, 0.0));
-    float n100 = hash(i + vec3(1.0, 0.0, 0.0));
-    float n010 = hash(i + vec3(0.0, 1.0, 0.0));
-    float n110 = hash(i + vec3(1.0, 1.0, 0.0));
-    float n001 = hash(i + vec3(0.0, 0.0, 1.0));
-    float n101 = hash(i + vec3(1.0, 0.0, 1.0));
-    float n011 = hash(i + vec3(0.0, 1.0, 1.0));
-    float n111 = hash(i + vec3(1.0, 1.0, 1.0));
-
-    vec3 u = f * f * (3.0 - 2.0 * f);
-
-    float nx00 = mix(n000, n100, u.x);
-    float nx10 = mix(n010, n110, u.x);
-    float nx01 = mix(n001, n101, u.x);
-    float nx11 = mix(n011, n111, u.x);
-
-    float nxy0 = mix(nx00, nx10, u.y);
-    float nxy1 = mix(nx01, nx11, u.y);
+// Adaptive stepping: step size is max(segment / fogSteps, distance * stepDistanceScale)
+uniform float stepDistanceScale;
+uniform float minTransmittance;            // stop marching once every channel is below this
+
+// Empty-space skipping (FogOccupancyMaterial): upper bound of the density per cell over occupancyBounds
+uniform sampler3D tOccupancy;
+uniform vec3 occupancyBoundsMin;
+uniform vec3 occupancyBoundsMax;
+uniform bool useOccupancy;
+uniform float emptySpaceThreshold;
+
+uniform bool showStepHeatmap;              // debug: output per-pixel step count instead of fog
+
+// Second attachment: per-channel transmittance along the ray (rgb), read by the transmittance composite
+layout(location = 1) out highp vec4 fogTransmittance;
+
+// Ray start jitter: blue noise rank rotated by a per-frame golden-ratio offset
+uniform sampler2D tBlueNoise;
+uniform float jitterOffset;
+
+// Scattering model
+#define PHASE_HENYEY_GREENSTEIN 0
+#define PHASE_DUAL_LOBE 1
+#define PHASE_RAYLEIGH 2
+#define PHASE_CORNETTE_SHANKS 3
+
+uniform int phaseModel;
+uniform float phaseG;                      // anisotropy (first lobe for dual-lobe)
+uniform float phaseG2;                     // second lobe anisotropy (dual-lobe only)
+uniform float phaseLobeBlend;              // weight of the first lobe (dual-lobe only)
+uniform vec3 scatteringCoefficient;        // per-channel scattering, scaled by density
+uniform vec3 absorptionCoefficient;        // per-channel absorption, scaled by density
+
+// Local point / spot lights (see FogMaterial.updateLocalLights)
+#define LOCAL_LIGHT_SHADOW_NONE 0.0
+#define LOCAL_LIGHT_SHADOW_SPOT 1.0
+#define LOCAL_LIGHT_SHADOW_POINT 2.0
+
+uniform int fogLocalLightCount;
+uniform vec4 fogLocalLightPosition[MAX_FOG_LOCAL_LIGHTS];      // xyz: world position, w: cutoff distance (0 = infinite)
+uniform vec4 fogLocalLightColor[MAX_FOG_LOCAL_LIGHTS];         // rgb: color * intensity, w: decay exponent
+uniform vec4 fogLocalLightSpot[MAX_FOG_LOCAL_LIGHTS];          // xyz: spot direction, w: cos(outer cone angle)
+uniform float fogLocalLightPenumbraCos[MAX_FOG_LOCAL_LIGHTS];  // cos(inner cone angle)
+uniform vec4 fogLocalLightShadowParams[MAX_FOG_LOCAL_LIGHTS];  // x: shadow type, y: bias, z: camera near, w: camera far
+uniform vec4 fogLocalLightShadowMapParams[MAX_FOG_LOCAL_LIGHTS]; // xy: map size, z: intensity, w: radius
+uniform mat4 fogLocalLightShadowMatrix[MAX_FOG_LOCAL_LIGHTS];
+uniform sampler2D fogLocalLightShadowMap[MAX_FOG_LOCAL_LIGHTS];
 
-    return mix(nxy0, nxy1, u.z);
-}
-
-float domainWarpedNoise(vec3 p) {
-    // Tuned for small (~2u) scene, adjust to taste
-    float baseScale = 2.5;
-    float warpScale = 4.0;
-    float warpStrength = 0.4;
-
-    vec3 q = p * warpScale + vec3(time * 0.3, time * 0.25, time * 0.2);
-    vec3 warp = vec3(
-        valueNoise(q + vec3(13.1, 7.7, 3.1)),
-        valueNoise(q + vec3(5.2, 17.3, 9.2)),
-        valueNoise(q + vec3(11.7, 3.4, 21.1))
-    ) * warpStrength;
-
-    vec3 finalP = p * baseScale + warp + vec3(0.0, time * animSpeed, 0.0);
-
-    float n =
-        0.6 * valueNoise(finalP) +
-        0.3 * valueNoise(finalP * 2.1) +
-        0.1 * valueNoise(finalP * 4.3);
-
-    return clamp(n, 0.0, 1.0);
-}
+varying vec2 vUv;
 
 // ------------- Shadow mapping -------------
 
@@ -107,6 +93,34 @@ float getWorldShadow(vec3 worldPos) {
     );
 }
 
+float getLocalLightShadow(sampler2D localShadowMap, vec4 shadowParams, vec4 shadowMapParams, mat4 shadowMatrix, vec3 worldPos) {
+    if (shadowParams.x == LOCAL_LIGHT_SHADOW_NONE) {
+        return 1.0;
+    }
+
+    vec4 shadowCoord = shadowMatrix * vec4(worldPos, 1.0);
+    if (shadowParams.x == LOCAL_LIGHT_SHADOW_POINT) {
+        return getPointShadow(
+            localShadowMap,
+            shadowMapParams.xy,
+            shadowMapParams.z,
+            shadowParams.y,
+            shadowMapParams.w,
+            shadowCoord,
+            shadowParams.z,
+            shadowParams.w
+        );
+    }
+    return getShadow(
+        localShadowMap,
+        shadowMapParams.xy,
+        shadowMapParams.z,
+        shadowParams.y,
+        shadowMapParams.w,
+        shadowCoord
+    );
+}
+
 // ------------- Phase function -------------
 
 float phaseHG(float cosTheta, float g) {
@@ -115,13 +129,84 @@ float phaseHG(float cosTheta, float g) {
     return (1.0 - g2) / (4.0 * 3.14159265 * max(denom, 1e-4));
 }
 
+float phaseRayleigh(float cosTheta) {
+    return 3.0 / (16.0 * 3.14159265) * (1.0 + cosTheta * cosTheta);
+}
+
+float phaseCornetteShanks(float cosTheta, float g) {
+    float g2 = g * g;
+    float denom = (2.0 + g2) * pow(1.0 + g2 - 2.0 * g * cosTheta, 1.5);
+    return 3.0 / (8.0 * 3.14159265) * (1.0 - g2) * (1.0 + cosTheta * cosTheta) / max(denom, 1e-4);
+}
+
+float phaseFunction(float cosTheta) {
+    if (phaseModel == PHASE_DUAL_LOBE) {
+        return mix(phaseHG(cosTheta, phaseG2), phaseHG(cosTheta, phaseG), phaseLobeBlend);
+    } else if (phaseModel == PHASE_RAYLEIGH) {
+        return phaseRayleigh(cosTheta);
+    } else if (phaseModel == PHASE_CORNETTE_SHANKS) {
+        return phaseCornetteShanks(cosTheta, phaseG);
+    }
+    return phaseHG(cosTheta, phaseG);
+}
+
+// ------------- Local lights -------------
+
+// Inverse-square (decay = 2) falloff with smooth cutoff, as in Three.js getDistanceAttenuation
+float getLocalLightDistanceAttenuation(float lightDistance, float cutoffDistance, float decayExponent) {
+    float distanceFalloff = 1.0 / max(pow(lightDistance, decayExponent), 0.01);
+    if (cutoffDistance > 0.0) {
+        float ratio = lightDistance / cutoffDistance;
+        distanceFalloff *= pow(clamp(1.0 - ratio * ratio * ratio * ratio, 0.0, 1.0), 2.0);
+    }
+    return distanceFalloff;
+}
+
+vec3 localLightsInScattering(vec3 worldPos, vec3 rd) {
+    vec3 inScattering = vec3(0.0);
+
+    // Loop bound must match MAX_FOG_LOCAL_LIGHTS (unrolled so shadow samplers use constant indices)
+    #pragma unroll_loop_start
+    for (int i = 0; i < 4; i++) {
+        if (UNROLLED_LOOP_INDEX < fogLocalLightCount) {
+            vec3 toLight = fogLocalLightPosition[ i ].xyz - worldPos;
+            float lightDistance = length(toLight);
+            vec3 L = toLight / max(lightDistance, 1e-4);
+
+            float attenuation = getLocalLightDistanceAttenuation(
+                lightDistance,
+                fogLocalLightPosition[ i ].w,
+                fogLocalLightColor[ i ].w
+            );
+
+            // Cone attenuation (point lights use a cone cosine below -1, so this is always 1)
+            float angleCos = dot(fogLocalLightSpot[ i ].xyz, -L);
+            attenuation *= smoothstep(fogLocalLightSpot[ i ].w, fogLocalLightPenumbraCos[ i ], angleCos);
+
+            if (attenuation > 0.0) {
+                float shadow = getLocalLightShadow(
+                    fogLocalLightShadowMap[ i ],
+                    fogLocalLightShadowParams[ i ],
+                    fogLocalLightShadowMapParams[ i ],
+                    fogLocalLightShadowMatrix[ i ],
+                    worldPos
+                );
+                inScattering += fogLocalLightColor[ i ].rgb * attenuation * shadow * phaseFunction(dot(rd, L));
+            }
+        }
+    }
+    #pragma unroll_loop_end
+
+    return inScattering;
+}
+
 // ------------- Depth -------------
 
 float getDepth(const in vec2 uv) {
     #if DEPTH_PACKING == 1
-        return unpackRGBAToDepth(texture2D(tDepth, uv));
+        return unpackRGBAToDepth(texture2D(tDepth, uv * depthUvScale));
     #else
-        return texture2D(tDepth, uv).x;
+        return texture2D(tDepth, uv * depthUvScale).x;
     #endif
 }
 
@@ -135,131 +220,171 @@ float getViewZ(const in float depth) {
 
 // ------------- Ray dithering -------------
 
-float rand(vec2 n) {
-    return fract(sin(dot(n, vec2(12.9898, 4.1414))) * 43758.5453);
+// Fraction of a step to offset the march by. Blue noise keeps neighbouring pixels decorrelated
+// and the golden-ratio rotation gives every frame a new offset the fog history can average
+float getRayJitter() {
+    ivec2 noiseSize = textureSize(tBlueNoise, 0);
+    float blueNoise = texelFetch(tBlueNoise, ivec2(gl_FragCoord.xy) % noiseSize, 0).r;
+    return fract(blueNoise + jitterOffset);
 }
 
-vec3 rayNoise(vec3 n) {
-    return rayNoiseScale * (vec3(rand(n.xy), rand(n.yz), rand(n.zx)) - vec3(0.5));
-}
+// ------------- Empty-space skipping -------------
 
-// Ray-sphere intersection to find entry and exit points
-void intersectSphere(vec3 ro, vec3 rd, vec3 center, float radius, out float t0, out float t1) {
-    vec3 oc = ro - center;
-    float a = dot(rd, rd);
-    float b = 2.0 * dot(oc, rd);
-    float c = dot(oc, oc) - radius * radius;
-    float discriminant = b * b - 4.0 * a * c;
-
-    if (discriminant < 0.0) {
-        t0 = -1.0;
-        t1 = -1.0;
-        return;
-    }
+// Upper bound on empty cells crossed per ray, on top of the fogSteps sample budget
+#define OCCUPANCY_MAX_SKIPS 64
+
+// True when the occupancy cell containing worldPos is (nearly) empty; cellExit is the distance
+// along rd to the cell boundary. Points outside the grid are never skipped.
+bool isEmptyOccupancyCell(vec3 worldPos, vec3 rd, out float cellExit) {
+    cellExit = 0.0;
 
-    float sqrtDisc = sqrt(discriminant);
-    t0 = (-b - sqrtDisc) / (2.0 * a);
-    t1 = (-b + sqrtDisc) / (2.0 * a);
+    vec3 boundsSize = occupancyBoundsMax - occupancyBoundsMin;
+    vec3 gridUvw = (worldPos - occupancyBoundsMin) / boundsSize;
+    if (any(lessThan(gridUvw, vec3(0.0))) || any(greaterThanEqual(gridUvw, vec3(1.0)))) {
+        return false;
+    }
 
-    // Ensure t0 < t1
-    if (t0 > t1) {
-        float temp = t0;
-        t0 = t1;
-        t1 = temp;
+    ivec3 gridSize = textureSize(tOccupancy, 0);
+    ivec3 cell = ivec3(gridUvw * vec3(gridSize));
+    if (texelFetch(tOccupancy, cell, 0).r > emptySpaceThreshold) {
+        return false;
     }
+
+    vec3 cellSize = boundsSize / vec3(gridSize);
+    vec3 cellMin = occupancyBoundsMin + vec3(cell) * cellSize;
+    vec3 safeRd = mix(rd, vec3(1e-6), lessThan(abs(rd), vec3(1e-6)));
+    vec3 exitPlane = cellMin + cellSize * step(0.0, safeRd);
+    vec3 tExit = (exitPlane - worldPos) / safeRd;
+    cellExit = max(min(min(tExit.x, tExit.y), tExit.z), 0.0);
+    return true;
 }
 
-vec4 volumetricMarch(vec3 ro, vec3 rd, float maxDist) {
+// Blue (few steps) -> green -> red (full budget)
+vec3 stepHeatmap(float x) {
+    x = clamp(x, 0.0, 1.0);
+    return clamp(vec3(2.0 * x - 0.5, 1.0 - abs(2.0 * x - 1.0), 1.5 - 2.0 * x), 0.0, 1.0);
+}
+
+// Returns in-scattered light and alpha, the per-channel transmittance goes to the second attachment
+vec4 volumetricMarch(vec3 ro, vec3 rd, float maxDist, float jitter, out vec3 transmittance) {
+    transmittance = vec3(1.0);
     float startDist = 0.02;
     if (maxDist <= startDist) {
         return vec4(0.0);
     }
 
-    // Check if camera is inside the sphere
-    float distToCenter = length(ro - fogSphereCenter);
-    bool cameraInsideSphere = distToCenter < fogSphereRadius;
+    // Per-volume entry/exit intervals clipped to the visible segment,
+    // the march covers their union
+    vec2 volumeIntervals[MAX_FOG_VOLUMES];
+    float fogStart = 1e9;
+    float fogEnd = -1e9;
 
-    // Find intersection with fog sphere
-    float sphereT0, sphereT1;
-    intersectSphere(ro, rd, fogSphereCenter, fogSphereRadius, sphereT0, sphereT1);
+    for (int v = 0; v < MAX_FOG_VOLUMES; v++) {
+        if (v >= fogVolumeCount) break;
 
-    float fogStart, fogEnd;
+        vec2 interval = intersectFogVolume(v, ro, rd);
+        interval.x = max(interval.x, startDist);
+        interval.y = min(interval.y, maxDist);
+        volumeIntervals[v] = interval;
 
-    if (cameraInsideSphere) {
-        // Camera is inside sphere: start from camera, end at exit point or maxDist
-        fogStart = startDist;
-        if (sphereT1 > 0.0) {
-            fogEnd = min(maxDist, sphereT1);
-        } else {
-            // No exit point found (shouldn't happen, but handle it)
-            fogEnd = maxDist;
+        if (interval.y > interval.x) {
+            fogStart = min(fogStart, interval.x);
+            fogEnd = max(fogEnd, interval.y);
         }
-    } else {
-        // Camera is outside sphere: check if ray enters sphere
-        if (sphereT0 < 0.0 || sphereT1 < 0.0) {
-            // Ray doesn't intersect sphere
-            return vec4(0.0);
-        }
-
-        // Ray enters at sphereT0, exits at sphereT1
-        fogStart = max(startDist, max(0.0, sphereT0));
-        fogEnd = min(maxDist, sphereT1);
     }
 
     if (fogEnd <= fogStart) {
         return vec4(0.0);
     }
 
-    float tStep = (fogEnd - fogStart) / float(fogSteps);
-    float opticalDepth = 0.0;
+    // Steps never get shorter than the uniform split, so at most fogSteps samples are taken
+    float minStep = (fogEnd - fogStart) / fogSteps;
+    vec3 opticalDepth = vec3(0.0);
     vec3 scatteredLight = vec3(0.0);
+    float t = fogStart;
+    float stepCount = 0.0;
 
-    // Isotropic scattering to make fog brightness more view-angle uniform
-    float g = 0.1;
+    for (int i = 0; i < int(fogSteps) + OCCUPANCY_MAX_SKIPS; i++) {
+        if (t >= fogEnd) break;
 
-    for (int i = 0; i < int(fogSteps); i++) {
-        float t = fogStart + float(i) * tStep;
-        float tNext = fogStart + (float(i) + 1.0) * tStep;
-
-        // Clamp step to depth buffer boundary if it would exceed it
-        float actualStepEnd = min(tNext, maxDist);
-        float actualStepStart = max(t, fogStart);
-        float actualStepSize = actualStepEnd - actualStepStart;
+        // Empty-space skipping: jump over occupancy cells without meaningful density
+        float cellExit;
+        if (useOccupancy && isEmptyOccupancyCell(ro + rd * t, rd, cellExit)) {
+            t += cellExit + 1e-3;
+            stepCount += 1.0;
+            continue;
+        }
 
-        if (actualStepSize <= 0.0 || actualStepStart >= maxDist) break;
+        // Distance-dependent step, clamped to the fog segment (which already ends at the depth buffer)
+        float dt = max(minStep, t * stepDistanceScale);
+        float tNext = min(t + dt, fogEnd);
+        float actualStepSize = tNext - t;
 
-        // Sample at the center of the actual step
-        float tSample = actualStepStart + actualStepSize * 0.5;
+        // Sample at the jittered position within the step
+        float tSample = t + actualStepSize * jitter;
         vec3 worldPos = ro + rd * tSample;
+        t = tNext;
+        stepCount += 1.0;
+
+        // Accumulate density and albedo-weighted density of every volume containing the sample
+        float localDensity = 0.0;
+        vec3 localAlbedoDensity = vec3(0.0);
+        for (int v = 0; v < MAX_FOG_VOLUMES; v++) {
+            if (v >= fogVolumeCount) break;
+
+            vec2 interval = volumeIntervals[v];
+            if (tSample < interval.x || tSample > interval.y) continue;
+
+            float volumeDensity = sampleFogVolumeDensity(v, worldPos);
+            localDensity += volumeDensity;
+            localAlbedoDensity += volumeDensity * fogVolumeAlbedo[v];
+        }
 
-        // Double-check we're inside sphere (safety check)
-        float distToCenter = length(worldPos - fogSphereCenter);
-        if (distToCenter > fogSphereRadius) {
+        if (localDensity <= 0.0) {
             continue;
         }
 
-        float n = domainWarpedNoise(worldPos);
-        float localDensity = fogDensity * pow(n, 0.7);
+        // Volume albedo turns the non-scattered part of the scattering coefficient into absorption,
+        // so extinction = scattering + absorption stays independent of the albedo
+        vec3 localScattering = localAlbedoDensity * scatteringCoefficient;
+        vec3 localExtinction = localDensity * (scatteringCoefficient + absorptionCoefficient);
 
-        // Contributions are automatically scaled by using actualStepSize instead of tStep
-        opticalDepth += localDensity * actualStepSize;
+        // Contributions are automatically scaled by using actualStepSize
+        opticalDepth += localExtinction * actualStepSize;
 
         // Light scattering (directional)
         vec3 L = normalize(lightDirection);       // FROM light TO scene
         float shadow = getWorldShadow(worldPos);
 
         float cosTheta = dot(rd, L);
-        float phase = phaseHG(cosTheta, g);
+        float phase = phaseFunction(cosTheta);
 
-        vec3 Li = lightColor * lightIntensity * lightMultiplier * shadow;
+        // Light reaching the sample is also attenuated by the fog between it and the light
+        float fogShadow = getFogShadowTransmittance(worldPos);
 
-        float Tr = exp(-opticalDepth);           // transmittance from camera to sample
+        vec3 Li = lightColor * lightIntensity * lightMultiplier * shadow * fogShadow;
 
-        scatteredLight += Tr * localDensity * Li * phase * actualStepSize;
+        // Point and spot lights carry their own phase (direction to light varies per sample)
+        vec3 localLi = localLightsInScattering(worldPos, rd) * lightMultiplier;
+
+        vec3 Tr = exp(-opticalDepth);            // per-channel transmittance from camera to sample
+
+        scatteredLight += Tr * localScattering * (Li * phase + localLi) * actualStepSize;
+
+        // Early termination: nothing behind this point can contribute visibly
+        if (all(lessThan(Tr, vec3(minTransmittance)))) break;
     }
 
-    // Alpha from extinction, not brightness hack
-    float fogAlpha = 1.0 - exp(-opticalDepth);
+    if (showStepHeatmap) {
+        transmittance = vec3(0.0);
+        return vec4(stepHeatmap(stepCount / fogSteps), 1.0);
+    }
+
+    // Per-channel transmittance for the transmittance composite
+    transmittance = exp(-opticalDepth);
+
+    // Alpha from (channel-averaged) extinction, not brightness hack
+    float fogAlpha = 1.0 - dot(transmittance, vec3(1.0 / 3.0));
     fogAlpha = clamp(fogAlpha, 0.0, 1.0);
 
     return vec4(scatteredLight, fogAlpha);
@@ -268,6 +393,11 @@ vec4 volumetricMarch(vec3 ro, vec3 rd, float maxDist) {
 // ------------- Main -------------
 
 void main() {
+    // Pixels outside this frame's interleave slot are reconstructed by the blend pass
+    if (!isInterleavedPixelMarched(ivec2(gl_FragCoord.xy))) {
+        discard;
+    }
+
     // Raw depth from buffer
     float depth = getDepth(vUv);
     bool hasGeom = depth < 1.0 - 1e-5;
@@ -285,10 +415,6 @@ void main() {
     vec3 viewDir = normalize(viewPos.xyz);
     vec3 rayDirWorld = normalize((viewMatrixInverse * vec4(viewDir, 0.0)).xyz);
 
-    // Dither & renormalize
-    rayDirWorld += rayNoise(rayDirWorld);
-    rayDirWorld = normalize(rayDirWorld);
-
     // Convert linearViewZ (along camera forward) to distance along this ray
     float distToGeom;
     if (hasGeom) {
@@ -300,12 +426,14 @@ void main() {
     }
 
     float maxDist = min(distToGeom, maxFogDistance);
-    if (maxDist <= 0.0) {
-        gl_FragColor = vec4(0.0);
-        return;
-    }
-
     vec3 rayOrigin = cameraPosition;
 
-    gl_FragColor = volumetricMarch(rayOrigin, rayDirWorld, maxDist);
+    // Both attachments are written on every path (no fog: nothing scattered, fully transmitted)
+    vec4 fog = vec4(0.0);
+    vec3 transmittance = vec3(1.0);
+    if (maxDist > 0.0) {
+        fog = volumetricMarch(rayOrigin, rayDirWorld, maxDist, getRayJitter(), transmittance);
+    }
+    gl_FragColor = fog;
+    fogTransmittance = vec4(transmittance, 1.0);
 }
@@ -0,0 +1,82 @@
+#include <packing>
+
+uniform sampler2D tCurrent;        // current fog frame
+uniform sampler2D tHistory;        // previous accumulated fog
+uniform sampler2D tCurrentTransmittance;  // second attachments: per-channel transmittance
+uniform sampler2D tHistoryTransmittance;
+uniform sampler2D tVelocity;       // xy: UV motion (current -> previous), z: linear depth in previous view
+uniform sampler2D tHistoryDepth;   // previous frame depth (downsampled)
+
+uniform float blendFactor;         // history weight (0.0 = all current, 1.0 = all history)
+uniform float depthThreshold;      // relative depth error tolerated before history is rejected
+uniform vec2 cameraNearFar;        // [near, far]
+uniform bool hasHistory;           // false until the first blended frame exists
+
+// Drawn part of each target (dynamic resolution sub-viewports), history may have used another scale
+uniform vec2 currentUvScale;       // tCurrent, tVelocity and the blended output
+uniform vec2 historyUvScale;       // tHistory, tHistoryDepth
+
+varying vec2 vUv;
+
+// Blended transmittance, filtered exactly like the fog
+layout(location = 1) out highp vec4 fogTransmittance;
+
+bool isValidUv(vec2 uv) {
+	return uv.x >= 0.0 && uv.x <= 1.0 && uv.y >= 0.0 && uv.y <= 1.0;
+}
+
+// Average of the pixels marched this frame in the 3x3 neighbourhood (interleaved rendering)
+vec4 reconstructFromNeighbors(sampler2D tex, ivec2 pixel) {
+	ivec2 maxPixel = ivec2(vec2(textureSize(tex, 0)) * currentUvScale + 0.5) - 1;
+	vec4 sum = vec4(0.0);
+	float count = 0.0;
+	for (int y = -1; y <= 1; y++) {
+		for (int x = -1; x <= 1; x++) {
+			ivec2 neighbor = clamp(pixel + ivec2(x, y), ivec2(0), maxPixel);
+			if (isInterleavedPixelMarched(neighbor)) {
+				sum += texelFetch(tex, neighbor, 0);
+				count += 1.0;
+			}
+		}
+	}
+	return count > 0.0 ? sum / count : vec4(0.0);
+}
+
+void main() {
+	ivec2 pixel = ivec2(gl_FragCoord.xy);
+	bool marched = isInterleavedPixelMarched(pixel);
+
+	// Skipped pixels fall back to their marched neighbours wherever history is unusable
+	vec4 current = marched ? texture2D(tCurrent, vUv * currentUvScale) : reconstructFromNeighbors(tCurrent, pixel);
+	vec4 currentTransmittance = marched
+		? texture2D(tCurrentTransmittance, vUv * currentUvScale)
+		: reconstructFromNeighbors(tCurrentTransmittance, pixel);
+	vec4 velocity = texture2D(tVelocity, vUv * currentUvScale);
+	vec2 historyUv = vUv + velocity.xy;
+
+	// Pixel was off-screen last frame - nothing to reproject
+	if (!hasHistory || !isValidUv(historyUv)) {
+		gl_FragColor = current;
+		fogTransmittance = currentTransmittance;
+		return;
+	}
+
+	// Disocclusion: compare the depth this surface had in the previous view
+	// with what the previous depth buffer actually saw at the reprojected position
+	float historyDepth = texture2D(tHistoryDepth, historyUv * historyUvScale).x;
+	float historyViewZ = -perspectiveDepthToViewZ(historyDepth, cameraNearFar.x, cameraNearFar.y);
+	float expectedViewZ = velocity.z;
+	float depthError = abs(historyViewZ - expectedViewZ) / max(expectedViewZ, 1e-3);
+
+	// Fade history out instead of a hard cut to avoid popping at silhouettes
+	float historyValidity = 1.0 - smoothstep(depthThreshold, depthThreshold * 2.0, depthError);
+
+	// Skipped pixels have no new sample, valid history is taken as is
+	float historyWeight = (marched ? blendFactor : 1.0) * historyValidity;
+
+	vec4 history = texture2D(tHistory, historyUv * historyUvScale);
+	vec4 historyTransmittance = texture2D(tHistoryTransmittance, historyUv * historyUvScale);
+
+	gl_FragColor = mix(current, history, historyWeight);
+	fogTransmittance = mix(currentTransmittance, historyTransmittance, historyWeight);
+}
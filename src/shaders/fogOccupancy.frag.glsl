@@ -0,0 +1,84 @@
+// Coarse fog occupancy grid (one fullscreen pass per Z slice of a 3D target)
+// Each texel stores an upper bound of the density inside its cell, the fog ray-march skips cells
+// below emptySpaceThreshold. The animated noise is sampled over the cell, so the grid is rebuilt every frame.
+
+uniform vec3 occupancyBoundsMin;
+uniform vec3 occupancyBoundsMax;
+uniform vec3 occupancyGridSize;
+uniform float occupancySlice;
+
+varying vec2 vUv;
+
+// Noise samples per cell axis (corners, edge midpoints and center)
+const int NOISE_SAMPLES = 3;
+// Added to the sampled noise maximum to cover the peaks between samples
+const float NOISE_MARGIN = 0.1;
+
+// Conservative cell / volume overlap: the cell is treated as a sphere and its radius
+// is expanded by the largest stretch of the world-to-local transform
+bool overlapsFogVolume(int index, vec3 center, float radius) {
+    mat4 worldToLocal = fogVolumeWorldToLocal[index];
+    vec3 localCenter = (worldToLocal * vec4(center, 1.0)).xyz;
+    float stretch = max(max(length(worldToLocal[0].xyz), length(worldToLocal[1].xyz)), length(worldToLocal[2].xyz));
+    float localRadius = radius * stretch;
+
+    int shape = fogVolumeShapes[index];
+    if (shape == FOG_SHAPE_BOX) {
+        return all(lessThanEqual(abs(localCenter), vec3(1.0 + localRadius)));
+    } else if (shape == FOG_SHAPE_ELLIPSOID) {
+        return length(localCenter) <= 1.0 + localRadius;
+    }
+    return localCenter.y <= 1.0 + localRadius;
+}
+
+// Largest noise value over the cell, at this frame's animation and wind offset (as sampleFogVolumeDensity)
+float getMaxFogVolumeNoise(int index, vec3 cellMin, vec3 cellSize) {
+    float noiseScale = fogVolumeParams[index].y;
+    float maxNoise = 0.0;
+    for (int x = 0; x < NOISE_SAMPLES; x++) {
+        for (int y = 0; y < NOISE_SAMPLES; y++) {
+            for (int z = 0; z < NOISE_SAMPLES; z++) {
+                vec3 p = cellMin + cellSize * vec3(x, y, z) / float(NOISE_SAMPLES - 1);
+                maxNoise = max(maxNoise, fogNoise((p - windOffset) * noiseScale));
+            }
+        }
+    }
+    return min(maxNoise + NOISE_MARGIN, 1.0);
+}
+
+// Upper bound of a volume's density over a cell (a sphere around it for the height falloff): the noise term
+// mix(1, n^0.7, strength) at the cell's noise maximum, the height falloff at the lowest local height reached
+float getMaxFogVolumeDensity(int index, vec3 cellMin, vec3 cellSize, vec3 center, float radius) {
+    vec4 params = fogVolumeParams[index];
+    float maxNoise = getMaxFogVolumeNoise(index, cellMin, cellSize);
+    float density = params.x * max(mix(1.0, pow(maxNoise, 0.7), params.z), 0.0);
+
+    if (fogVolumeShapes[index] == FOG_SHAPE_HEIGHT_LAYER) {
+        mat4 worldToLocal = fogVolumeWorldToLocal[index];
+        vec3 heightGradient = vec3(worldToLocal[0].y, worldToLocal[1].y, worldToLocal[2].y);
+        float minLocalY = (worldToLocal * vec4(center, 1.0)).y - radius * length(heightGradient);
+        density *= exp(-params.w * max(minLocalY, 0.0));
+    }
+
+    return fogDensity * density;
+}
+
+void main() {
+    vec3 cellSize = (occupancyBoundsMax - occupancyBoundsMin) / occupancyGridSize;
+    vec3 cell = vec3(floor(gl_FragCoord.xy), occupancySlice);
+    vec3 cellMin = occupancyBoundsMin + cell * cellSize;
+    vec3 cellCenter = cellMin + 0.5 * cellSize;
+    float cellRadius = length(cellSize) * 0.5;
+
+    // Sum of the bounds of every overlapping volume
+    float maxDensity = 0.0;
+    for (int v = 0; v < MAX_FOG_VOLUMES; v++) {
+        if (v >= fogVolumeCount) break;
+        if (!overlapsFogVolume(v, cellCenter, cellRadius)) continue;
+
+        maxDensity += getMaxFogVolumeDensity(v, cellMin, cellSize, cellCenter, cellRadius);
+    }
+
+    // Margin for the half float rounding
+    gl_FragColor = vec4(maxDensity * 1.001, 0.0, 0.0, 1.0);
+}
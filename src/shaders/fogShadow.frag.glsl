@@ -0,0 +1,39 @@
+// Fog opacity shadow map (fullscreen pass in the fog light camera)
+// Marches the shared density function from the light-facing end of the light frustum
+// and stores the cumulative optical depth at the end of each of the four depth layers.
+
+uniform mat4 fogShadowMatrixInverse;       // [0, 1] light-space uv + depth -> world
+uniform vec3 scatteringCoefficient;
+uniform vec3 absorptionCoefficient;
+
+varying vec2 vUv;
+
+#define FOG_SHADOW_LAYERS 4
+#define FOG_SHADOW_STEPS_PER_LAYER 8
+
+vec3 lightSpaceToWorld(vec2 uv, float depth) {
+    vec4 worldPos = fogShadowMatrixInverse * vec4(uv, depth, 1.0);
+    return worldPos.xyz / worldPos.w;
+}
+
+void main() {
+    vec3 start = lightSpaceToWorld(vUv, 0.0);
+    vec3 end = lightSpaceToWorld(vUv, 1.0);
+
+    // Channel-averaged extinction, matching the fog alpha
+    float extinction = dot(scatteringCoefficient + absorptionCoefficient, vec3(1.0 / 3.0));
+    float totalSteps = float(FOG_SHADOW_LAYERS * FOG_SHADOW_STEPS_PER_LAYER);
+    float stepLength = distance(start, end) / totalSteps;
+
+    vec4 layers = vec4(0.0);
+    float opticalDepth = 0.0;
+    for (int layer = 0; layer < FOG_SHADOW_LAYERS; layer++) {
+        for (int i = 0; i < FOG_SHADOW_STEPS_PER_LAYER; i++) {
+            float t = (float(layer * FOG_SHADOW_STEPS_PER_LAYER + i) + 0.5) / totalSteps;
+            opticalDepth += sampleFogDensity(mix(start, end, t)) * extinction * stepLength;
+        }
+        layers[layer] = opticalDepth;
+    }
+
+    gl_FragColor = layers;
+}
@@ -0,0 +1,19 @@
+uniform sampler2D tInput;
+uniform sampler3D tLUT;
+uniform float lutSize;
+uniform vec3 domainMin;
+uniform vec3 domainMax;
+uniform float strength;
+
+varying vec2 vUv;
+
+void main() {
+	vec4 color = texture2D(tInput, vUv);
+
+	// Map the LUT domain onto texel centers so the first and last entries are hit exactly
+	vec3 coord = clamp((color.rgb - domainMin) / (domainMax - domainMin), 0.0, 1.0);
+	coord = coord * ((lutSize - 1.0) / lutSize) + 0.5 / lutSize;
+	vec3 graded = texture(tLUT, coord).rgb;
+
+	gl_FragColor = vec4(mix(color.rgb, graded, strength), color.a);
+}
@@ -0,0 +1,33 @@
+// Camera and object motion blur along the velocity buffer (UV motion to the previous frame),
+// centered on the current frame over the shutter fraction of the frame time
+
+uniform sampler2D tInput;
+uniform sampler2D tVelocity;
+uniform vec2 texelSize;
+uniform float intensity;    // Shutter open fraction of the frame (0.5 = 180 degree shutter)
+uniform float samples;
+uniform float maxBlur;      // Longest streak in pixels
+
+varying vec2 vUv;
+
+void main() {
+	vec4 center = texture2D(tInput, vUv);
+
+	vec2 motion = -texture2D(tVelocity, vUv).xy * intensity;
+	float streak = length(motion / texelSize);
+	if (streak < 0.5) {
+		gl_FragColor = center;
+		return;
+	}
+	motion *= min(maxBlur / streak, 1.0);
+
+	// Only the pixel's own motion is followed: static surfaces stay sharp
+	int count = max(int(samples), 2);
+	vec3 color = vec3(0.0);
+	for (int i = 0; i < count; i++) {
+		float t = (float(i) + 0.5) / float(count) - 0.5;
+		color += texture2D(tInput, vUv + motion * t).rgb;
+	}
+
+	gl_FragColor = vec4(color / float(count), center.a);
+}
@@ -0,0 +1,29 @@
+// Same layout as taaVelocity.frag.glsl: UV motion to the previous frame, previous linear depth,
+// and alpha 1 to mark pixels covered by an object (the camera reconstruction fills the rest)
+
+uniform vec2 currentJitter;
+uniform vec2 previousJitter;
+uniform float opacity;
+uniform sampler2D opacityMap;
+uniform bool hasOpacityMap;
+
+varying vec4 vCurrentClip;
+varying vec4 vPreviousClip;
+varying vec2 vUv;
+
+void main() {
+	// Mostly transparent surfaces keep the motion of what is behind them
+	float finalOpacity = opacity * (hasOpacityMap ? texture2D(opacityMap, vUv).a : 1.0);
+	if (finalOpacity < 0.5) {
+		discard;
+	}
+
+	vec2 currentNDC = vCurrentClip.xy / vCurrentClip.w;
+	vec2 previousNDC = vPreviousClip.xy / vPreviousClip.w;
+
+	// Both projections are jittered, only the motion is kept
+	previousNDC -= (previousJitter - currentJitter) * 2.0;
+
+	// Perspective clip w is the linear view depth
+	gl_FragColor = vec4((previousNDC - currentNDC) * 0.5, vPreviousClip.w, 1.0);
+}
@@ -0,0 +1,33 @@
+// Per-object motion vectors: this frame's and last frame's clip position of every vertex
+
+uniform mat4 previousModelMatrix;
+uniform mat4 previousViewMatrix;
+uniform mat4 previousProjectionMatrix;
+
+#ifdef USE_INSTANCING
+	attribute mat4 previousInstanceMatrix;
+#endif
+
+varying vec4 vCurrentClip;
+varying vec4 vPreviousClip;
+varying vec2 vUv;
+
+void main() {
+	vec4 localPosition = vec4(position, 1.0);
+	vec4 previousLocalPosition = localPosition;
+
+	#ifdef USE_WIND_SWAY
+		localPosition.xyz = applyWindSway(position, windSwayBend, windSwayHeight);
+		previousLocalPosition.xyz = applyWindSway(position, windSwayPreviousBend, windSwayHeight);
+	#endif
+
+	#ifdef USE_INSTANCING
+		localPosition = instanceMatrix * localPosition;
+		previousLocalPosition = previousInstanceMatrix * previousLocalPosition;
+	#endif
+
+	vCurrentClip = projectionMatrix * viewMatrix * modelMatrix * localPosition;
+	vPreviousClip = previousProjectionMatrix * previousViewMatrix * previousModelMatrix * previousLocalPosition;
+	vUv = uv;
+	gl_Position = vCurrentClip;
+}
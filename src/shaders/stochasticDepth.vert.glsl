@@ -4,10 +4,18 @@ varying vec4 vScreenPosition;
 varying vec2 vUv;
 
 void main() {
-	vNormal = normalize(normalMatrix * normal);
-	vec4 worldPos = modelMatrix * vec4(position, 1.0);
+	vec4 localPosition = vec4(position, 1.0);
+	vec3 localNormal = normal;
+
+	#ifdef USE_WIND_SWAY
+		localNormal = applyWindSwayNormal(position, localNormal, windSwayBend, windSwayHeight);
+		localPosition.xyz = applyWindSway(position, windSwayBend, windSwayHeight);
+	#endif
+
+	vNormal = normalize(normalMatrix * localNormal);
+	vec4 worldPos = modelMatrix * localPosition;
 	vWorldPosition = worldPos.xyz;
-	vScreenPosition = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+	vScreenPosition = projectionMatrix * modelViewMatrix * localPosition;
 	vUv = uv;
 	gl_Position = vScreenPosition;
 }
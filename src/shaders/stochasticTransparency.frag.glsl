@@ -1,45 +1,38 @@
 uniform float opacity;
 uniform int jitterIndex;
+uniform sampler2D opacityMap;
+uniform bool hasOpacityMap;
+
+// Approximate shading of the replaced MeshPhysicalMaterial
+uniform vec3 baseColor;
+uniform vec3 emissive;
+uniform vec3 lightDirection;       // normalized dir FROM scene TO light
+uniform vec3 lightColor;
 
 varying vec3 vNormal;
 varying vec3 vWorldPosition;
 varying vec4 vScreenPosition;
+varying vec2 vUv;
 
-const int  BAYER_SIZE = 4;
-const int  BAYER_LEN  = 16;
-
-const float BAYER_4X4[BAYER_LEN] = float[BAYER_LEN](
-    0.0/16.0,  8.0/16.0,  2.0/16.0, 10.0/16.0,
-   12.0/16.0,  4.0/16.0, 14.0/16.0,  6.0/16.0,
-    3.0/16.0, 11.0/16.0,  1.0/16.0,  9.0/16.0,
-   15.0/16.0,  7.0/16.0, 13.0/16.0,  5.0/16.0
-);
-
-float ditherPattern(vec2 pixelCoord, int jitterIndex) {
-    int j = jitterIndex & 255;
-
-    // 0..3, 0..3
-    int ox = j % BAYER_SIZE;
-    int oy = j / BAYER_SIZE;
-
-    // integer-safe wrap
-    int px = int(mod(pixelCoord.x + float(ox), float(BAYER_SIZE)));
-    int py = int(mod(pixelCoord.y + float(oy), float(BAYER_SIZE)));
+void main() {
+    // Sample RGBA texture if available (rgb = albedo, a = opacity)
+    vec4 mapColor = hasOpacityMap ? texture2D(opacityMap, vUv) : vec4(1.0);
 
-    int idx = py * BAYER_SIZE + px;
-    return BAYER_4X4[idx]; // 0..1
-}
+    // Combine base opacity with opacity map
+    float finalOpacity = opacity * mapColor.a;
 
-void main() {
     float threshold = ditherPattern(gl_FragCoord.xy, jitterIndex);
 
-    if (threshold > opacity) {
+    if (threshold > finalOpacity) {
         discard;
     }
 
-    vec3 lightDir = normalize(vec3(1.0, 4.0, 1.0) - vWorldPosition);
-    float diff = max(dot(vNormal, lightDir), 0.0);
-    vec3 color = vec3(0.6) * (0.4 + 0.6 * diff);
+    // Two-sided lambert, surviving fragments are fully opaque (coverage comes from the dither)
+    vec3 normal = normalize(vNormal) * (gl_FrontFacing ? 1.0 : -1.0);
+    float diff = max(dot(normal, lightDirection), 0.0);
+    vec3 albedo = baseColor * mapColor.rgb;
+    float fogShadow = getFogShadowTransmittance(vWorldPosition);
+    vec3 color = albedo * (0.4 + 0.6 * diff * fogShadow * lightColor) + emissive;
 
     gl_FragColor = vec4(color, 1.0);
 }
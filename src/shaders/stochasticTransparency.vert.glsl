@@ -1,13 +1,27 @@
 varying vec3 vNormal;
 varying vec3 vWorldPosition;
 varying vec4 vScreenPosition;
+varying vec2 vUv;
 
 void main() {
-	vNormal = normalize(normalMatrix * normal);
-	vec4 worldPos = modelMatrix * vec4(position, 1.0);
+	vec4 localPosition = vec4(position, 1.0);
+	vec3 localNormal = normal;
+
+	#ifdef USE_WIND_SWAY
+		localNormal = applyWindSwayNormal(position, localNormal, windSwayBend, windSwayHeight);
+		localPosition.xyz = applyWindSway(position, windSwayBend, windSwayHeight);
+	#endif
+
+	#ifdef USE_INSTANCING
+		// Per-instance transform (e.g. particles in an InstancedMesh)
+		localPosition = instanceMatrix * localPosition;
+		localNormal = mat3(instanceMatrix) * localNormal;
+	#endif
+
+	vNormal = normalize(mat3(modelMatrix) * localNormal);
+	vec4 worldPos = modelMatrix * localPosition;
 	vWorldPosition = worldPos.xyz;
-	vScreenPosition = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+	vScreenPosition = projectionMatrix * viewMatrix * worldPos;
+	vUv = uv;
 	gl_Position = vScreenPosition;
 }
-
-
@@ -1,14 +1,20 @@
+#include <packing>
+
 uniform sampler2D tCurrent;        // current frame color (jittered, premultiplied-style: color if hit, otherwise nothing)
 uniform sampler2D tHistory;        // previous accumulated color
-uniform sampler2D tVelocity;       // motion vectors in UV space (current -> previous)
-uniform sampler2D tDepth;          // current depth
+uniform sampler2D tVelocity;       // motion vectors in UV space (current -> previous), z = previous linear depth
 uniform sampler2D tHistoryDepth;   // previous depth
+uniform vec2 cameraNearFar;
 
 uniform float baseBlend;           // e.g. 0.1..0.2
 uniform float maxHistoryWeight;    // e.g. 0.9
-uniform float depthThreshold;      // e.g. 0.001..0.01
+uniform float depthThreshold;      // relative linear depth error, e.g. 0.05
 uniform vec2  texelSize;           // 1.0 / renderResolution
 
+// Drawn part of the color targets (dynamic resolution sub-viewports), history is resolved at full size
+uniform vec2  currentUvScale;      // tCurrent
+uniform vec2  historyDepthUvScale; // tHistoryDepth (previous frame scale)
+
 varying vec2 vUv;
 
 bool isValidUv(vec2 uv) {
@@ -40,11 +46,11 @@ vec3 neighborhoodMax(sampler2D tex, vec2 uv) {
 }
 
 void main() {
-    vec4 current = texture2D(tCurrent, vUv);
-    float currentDepth = texture2D(tDepth, vUv).r;
+    vec2 currentUv = vUv * currentUvScale;
+    vec4 current = texture2D(tCurrent, currentUv);
 
-    vec2 velocity = texture2D(tVelocity, vUv).xy;   // current -> previous
-    vec2 historyUv = vUv + velocity;
+    vec3 velocity = texture2D(tVelocity, vUv).xyz;  // current -> previous (camera and object motion)
+    vec2 historyUv = vUv + velocity.xy;
 
     vec4 history = vec4(0.0);
     bool useHistory = false;
@@ -52,10 +58,12 @@ void main() {
     if (isValidUv(historyUv)) {
         history = texture2D(tHistory, historyUv);
 
-        float historyDepth = texture2D(tHistoryDepth, historyUv).r;
-        float depthDiff = abs(currentDepth - historyDepth);
+        // Disocclusion: the depth this surface had last frame against what the previous depth buffer saw there
+        float historyDepth = texture2D(tHistoryDepth, historyUv * historyDepthUvScale).r;
+        float historyViewZ = -perspectiveDepthToViewZ(historyDepth, cameraNearFar.x, cameraNearFar.y);
+        float depthError = abs(historyViewZ - velocity.z) / max(velocity.z, 1e-3);
 
-        if (depthDiff < depthThreshold) {
+        if (depthError < depthThreshold) {
             useHistory = true;
         }
     }
@@ -67,15 +75,15 @@ void main() {
     }
 
     // Neighborhood clamp on current frame to limit history influence
-    vec3 nMin = neighborhoodMin(tCurrent, vUv);
-    vec3 nMax = neighborhoodMax(tCurrent, vUv);
+    vec3 nMin = neighborhoodMin(tCurrent, currentUv);
+    vec3 nMax = neighborhoodMax(tCurrent, currentUv);
 
     vec3 historyClampedRgb = clamp(history.rgb, nMin, nMax);
     float historyA = history.a; // keep as is
     vec4 historyClamped = vec4(historyClampedRgb, historyA);
 
     // Motion-based adaptive weights
-    float motionLen = length(velocity); // in UV
+    float motionLen = length(velocity.xy); // in UV
     float motionFactor = clamp(1.0 - motionLen * 200.0, 0.0, 1.0);
 
     float historyWeight = maxHistoryWeight * motionFactor;
@@ -85,8 +93,11 @@ void main() {
     currentWeight = max(currentWeight, baseBlend);
     historyWeight = 1.0 - currentWeight;
 
-    // Blend RGB
-    vec3 blendedRgb = historyClamped.rgb * historyWeight + current.rgb * currentWeight;
+    // Blend RGB, weighted by inverse luminance so HDR highlights do not flicker (Karis)
+    float historyLumaWeight = historyWeight / (1.0 + dot(historyClamped.rgb, vec3(0.2126, 0.7152, 0.0722)));
+    float currentLumaWeight = currentWeight / (1.0 + dot(current.rgb, vec3(0.2126, 0.7152, 0.0722)));
+    vec3 blendedRgb = (historyClamped.rgb * historyLumaWeight + current.rgb * currentLumaWeight)
+        / max(historyLumaWeight + currentLumaWeight, 1e-5);
 
     // ✅ Blend alpha with the same weights (no max!)
     float blendedA = historyClamped.a * historyWeight + current.a * currentWeight;
@@ -6,16 +6,19 @@ uniform vec2 currentJitter;
 uniform vec2 previousJitter;
 uniform vec2 resolution;
 uniform sampler2D tDepth;
+uniform vec2 depthUvScale; // drawn part of the depth target (dynamic resolution sub-viewport)
+uniform sampler2D tObjectVelocity; // per-object motion, alpha 0 where no object was drawn
+uniform bool useObjectVelocity;
 varying vec2 vUv;
 
-// Convert screen UV to NDC
+// Convert screen UV to NDC (fullscreen triangle UVs are already bottom-up, like NDC)
 vec2 screenToNDC(vec2 uv) {
-	return (uv * 2.0 - 1.0) * vec2(1.0, -1.0);
+	return uv * 2.0 - 1.0;
 }
 
 // Convert NDC to screen UV
 vec2 ndcToScreen(vec2 ndc) {
-	return (ndc * vec2(1.0, -1.0) + 1.0) * 0.5;
+	return ndc * 0.5 + 0.5;
 }
 
 void main() {
@@ -23,8 +26,17 @@ void main() {
 	vec2 currentScreen = vUv;
 	vec2 currentNDC = screenToNDC(currentScreen);
 
+	// Moving objects carry their own motion, the camera reconstruction covers the rest (and the background)
+	if (useObjectVelocity) {
+		vec4 objectVelocity = texture2D(tObjectVelocity, currentScreen * depthUvScale);
+		if (objectVelocity.a > 0.5) {
+			gl_FragColor = objectVelocity;
+			return;
+		}
+	}
+
 	// Sample depth from depth texture
-	float depth = texture2D(tDepth, currentScreen).r;
+	float depth = texture2D(tDepth, currentScreen * depthUvScale).r;
 
 	// Reconstruct view-space position from NDC and depth
 	// Convert depth from [0,1] to NDC z range (typically [-1,1] or [near,far])
@@ -52,8 +64,9 @@ void main() {
 	// Calculate velocity (motion from current to previous)
 	vec2 velocity = previousScreen - currentScreen;
 
-	// Output velocity in UV space
-	gl_FragColor = vec4(velocity, 0.0, 1.0);
+	// Output velocity in UV space, plus the linear depth this point had in the previous view
+	// so blend passes can detect disocclusion against the previous depth buffer
+	gl_FragColor = vec4(velocity, -previousViewPos.z, 1.0);
 }
 
 
@@ -0,0 +1,104 @@
+// Linear HDR to display: tone curve, then sRGB encoding
+
+uniform sampler2D tInput;
+uniform int operator;
+
+varying vec2 vUv;
+
+// Operators (see TONE_MAPPING_OPERATOR_IDS in ToneMappingPass.ts)
+#define TONE_MAPPING_NONE 0
+#define TONE_MAPPING_REINHARD 1
+#define TONE_MAPPING_ACES 2
+#define TONE_MAPPING_AGX 3
+#define TONE_MAPPING_UNCHARTED2 4
+
+// ACES fitted (Stephen Hill): sRGB -> ACEScg-ish input, RRT + ODT curve fit, back to sRGB
+vec3 rrtAndOdtFit(vec3 v) {
+	vec3 a = v * (v + 0.0245786) - 0.000090537;
+	vec3 b = v * (0.983729 * v + 0.4329510) + 0.238081;
+	return a / b;
+}
+
+vec3 toneMapACES(vec3 color) {
+	const mat3 inputMatrix = mat3(
+		0.59719, 0.07600, 0.02840,
+		0.35458, 0.90834, 0.13383,
+		0.04823, 0.01566, 0.83777
+	);
+	const mat3 outputMatrix = mat3(
+		1.60475, -0.10208, -0.00327,
+		-0.53108, 1.10813, -0.07276,
+		-0.07367, -0.00605, 1.07602
+	);
+	return clamp(outputMatrix * rrtAndOdtFit(inputMatrix * color), 0.0, 1.0);
+}
+
+// AgX (polynomial fit of the default base contrast curve)
+vec3 agxContrastApprox(vec3 x) {
+	vec3 x2 = x * x;
+	vec3 x4 = x2 * x2;
+	return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+vec3 toneMapAgX(vec3 color) {
+	const mat3 inset = mat3(
+		0.842479062253094, 0.0423282422610123, 0.0423756549057051,
+		0.0784335999999992, 0.878468636469772, 0.0784336,
+		0.0792237451477643, 0.0791661274605434, 0.879142973793104
+	);
+	const mat3 outset = mat3(
+		1.19687900512017, -0.0528968517574562, -0.0529716355144438,
+		-0.0980208811401368, 1.15190312990417, -0.0980434501171241,
+		-0.0990297440797205, -0.0989611768448433, 1.15107367264116
+	);
+	const float minEv = -12.47393;
+	const float maxEv = 4.026069;
+
+	color = inset * color;
+	color = clamp(log2(max(color, 1e-10)), minEv, maxEv);
+	color = agxContrastApprox((color - minEv) / (maxEv - minEv));
+
+	// The curve outputs display values, decode to linear so every operator ends in the same encoding
+	return pow(clamp(outset * color, 0.0, 1.0), vec3(2.2));
+}
+
+// Uncharted 2 filmic curve (John Hable), normalized by the curve at the white point
+vec3 uncharted2Curve(vec3 x) {
+	const float A = 0.15; // shoulder strength
+	const float B = 0.50; // linear strength
+	const float C = 0.10; // linear angle
+	const float D = 0.20; // toe strength
+	const float E = 0.02; // toe numerator
+	const float F = 0.30; // toe denominator
+	return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+}
+
+vec3 toneMapUncharted2(vec3 color) {
+	const float exposureBias = 2.0;
+	const float whitePoint = 11.2;
+	return clamp(uncharted2Curve(color * exposureBias) / uncharted2Curve(vec3(whitePoint)), 0.0, 1.0);
+}
+
+vec3 linearToSRGB(vec3 color) {
+	return mix(color * 12.92, 1.055 * pow(color, vec3(1.0 / 2.4)) - 0.055, step(vec3(0.0031308), color));
+}
+
+void main() {
+	vec4 source = texture2D(tInput, vUv);
+	vec3 color = max(source.rgb, 0.0);
+
+	if (operator == TONE_MAPPING_NONE) {
+		// Clipped, then encoded like every other operator
+		color = clamp(color, 0.0, 1.0);
+	} else if (operator == TONE_MAPPING_REINHARD) {
+		color = color / (1.0 + color);
+	} else if (operator == TONE_MAPPING_ACES) {
+		color = toneMapACES(color);
+	} else if (operator == TONE_MAPPING_AGX) {
+		color = toneMapAgX(color);
+	} else {
+		color = toneMapUncharted2(color);
+	}
+
+	gl_FragColor = vec4(linearToSRGB(color), source.a);
+}
@@ -0,0 +1,18 @@
+uniform sampler2D tInput;
+uniform float intensity;
+uniform float radius;
+
+varying vec2 vUv;
+
+void main() {
+	vec4 color = texture2D(tInput, vUv);
+
+	vec2 center = vec2(0.5, 0.5);
+	float dist = distance(vUv, center);
+	// Create vignette: 1.0 at center, 0.0 at edges
+	float vignette = 1.0 - smoothstep(radius * 0.5, radius, dist);
+	// Apply intensity: 1.0 when intensity is 0, darker when intensity increases
+	vignette = 1.0 - intensity * (1.0 - vignette);
+
+	gl_FragColor = vec4(color.rgb * vignette, color.a);
+}
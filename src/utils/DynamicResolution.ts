@@ -0,0 +1,109 @@
+export interface DynamicResolutionParameters {
+	enabled?: boolean
+	targetFps?: number
+	minScale?: number // Lowest render scale per axis (0.5 = a quarter of the pixels)
+	scaleColor?: boolean // Also scale the color buffer once the fog is at minScale
+}
+
+// Smoothing of the measured frame time (exponential moving average weight)
+const FRAME_TIME_SMOOTHING = 0.1
+// Relative frame time error above the budget before the scale drops
+const OVER_BUDGET_TOLERANCE = 0.1
+// Relative frame time error below the budget before the scale is allowed to grow back
+const UNDER_BUDGET_TOLERANCE = 0.02
+// Scale change per frame when growing back (drops are proportional to the overshoot)
+const SCALE_UP_STEP = 0.002
+// Frames longer than this are hitches (tab switch, shader compile) and are ignored
+const MAX_FRAME_TIME = 250
+
+/**
+ * Frame time driven render scale controller, fed with the time the frame's work took (not the time
+ * between frames, which vsync caps at the refresh rate).
+ * The fog is the dominant cost, so it is scaled down first and the color buffer only once the fog
+ * is at its minimum; scales recover in the reverse order. Drops are fast and growth is slow, so the
+ * scale settles just under the budget instead of oscillating around it.
+ */
+export class DynamicResolution {
+	public enabled: boolean
+	public targetFps: number
+	public minScale: number
+	public scaleColor: boolean
+
+	private averageFrameTime: number
+	private fogScale: number = 1
+	private colorScale: number = 1
+
+	public constructor(parameters: DynamicResolutionParameters = {}) {
+		this.enabled = parameters.enabled ?? false
+		this.targetFps = parameters.targetFps ?? 60
+		this.minScale = parameters.minScale ?? 0.5
+		this.scaleColor = parameters.scaleColor ?? false
+		this.averageFrameTime = 1000 / this.targetFps
+	}
+
+	/**
+	 * Feeds the work time of a frame in milliseconds and adjusts the scales
+	 * @param frameTime Null when no new measurement arrived, the scales are only kept within range
+	 */
+	public update(frameTime: number | null): void {
+		if (!this.enabled) {
+			this.fogScale = 1
+			this.colorScale = 1
+			return
+		}
+
+		// minScale may have been raised since the last update
+		const minScale = this.getMinScale()
+		this.fogScale = Math.max(this.fogScale, minScale)
+		this.colorScale = Math.max(this.colorScale, minScale)
+
+		if (frameTime === null || frameTime > MAX_FRAME_TIME) return
+
+		this.averageFrameTime += (frameTime - this.averageFrameTime) * FRAME_TIME_SMOOTHING
+
+		const budget = 1000 / this.targetFps
+		const error = (this.averageFrameTime - budget) / budget
+		if (error > OVER_BUDGET_TOLERANCE) {
+			this.adjust(-Math.min(error, 0.5) * 0.05)
+		} else if (error < -UNDER_BUDGET_TOLERANCE) {
+			this.adjust(SCALE_UP_STEP)
+		}
+
+		if (!this.scaleColor) {
+			this.colorScale = 1
+		}
+	}
+
+	public getFogScale(): number {
+		return this.enabled ? this.fogScale : 1
+	}
+
+	public getColorScale(): number {
+		return this.enabled && this.scaleColor ? this.colorScale : 1
+	}
+
+	public getAverageFrameTime(): number {
+		return this.averageFrameTime
+	}
+
+	private getMinScale(): number {
+		return Math.min(Math.max(this.minScale, 0.1), 1)
+	}
+
+	private adjust(step: number): void {
+		const minScale = this.getMinScale()
+		if (step < 0) {
+			if (this.fogScale > minScale || !this.scaleColor) {
+				this.fogScale = Math.max(this.fogScale + step, minScale)
+			} else {
+				this.colorScale = Math.max(this.colorScale + step, minScale)
+			}
+		} else {
+			if (this.colorScale < 1) {
+				this.colorScale = Math.min(this.colorScale + step, 1)
+			} else {
+				this.fogScale = Math.min(this.fogScale + step, 1)
+			}
+		}
+	}
+}
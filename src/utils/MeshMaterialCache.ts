@@ -0,0 +1,30 @@
+import * as THREE from 'three'
+
+/**
+ * Replacement materials of a render pass, one per mesh and kept across frames: the pass refreshes the
+ * per-mesh uniforms every frame instead of cloning (and recompiling) a material per mesh
+ */
+export class MeshMaterialCache<TMaterial extends THREE.Material> {
+	private materials: WeakMap<THREE.Mesh, TMaterial> = new WeakMap()
+	private created: TMaterial[] = []
+
+	public constructor(private create: () => TMaterial) {}
+
+	public get(mesh: THREE.Mesh): TMaterial {
+		let material = this.materials.get(mesh)
+		if (!material) {
+			material = this.create()
+			this.materials.set(mesh, material)
+			this.created.push(material)
+		}
+		return material
+	}
+
+	public dispose(): void {
+		for (const material of this.created) {
+			material.dispose()
+		}
+		this.created = []
+		this.materials = new WeakMap()
+	}
+}
@@ -0,0 +1,335 @@
+import * as THREE from 'three'
+
+// Gradient directions for 3D Perlin noise (cube edge midpoints)
+const PERLIN_GRADIENTS: Array<[number, number, number]> = [
+	[1, 1, 0], [-1, 1, 0], [1, -1, 0], [-1, -1, 0],
+	[1, 0, 1], [-1, 0, 1], [1, 0, -1], [-1, 0, -1],
+	[0, 1, 1], [0, -1, 1], [0, 1, -1], [0, -1, -1],
+]
+
+export class NoiseTextureFactory {
+	/**
+	 * Creates a tileable 3D Perlin-Worley noise texture
+	 * R: Perlin-Worley (Perlin fBm remapped by Worley fBm), G/B/A: Worley noise at 2x, 4x and 8x the base frequency
+	 * @param size Texture size in texels along each axis (default: 64)
+	 * @param period Number of noise cells across the texture at base frequency (default: 4)
+	 * @returns THREE.Data3DTexture with repeat wrapping and linear filtering
+	 */
+	public static createPerlinWorleyTexture(size: number = 64, period: number = 4): THREE.Data3DTexture {
+		const texelCount = size * size * size
+		const perlinWorley = new Float32Array(texelCount)
+		const data = new Uint8Array(texelCount * 4)
+
+		for (let z = 0; z < size; z++) {
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					// Position in noise cells at base frequency
+					const px = (x / size) * period
+					const py = (y / size) * period
+					const pz = (z / size) * period
+
+					const worley2 = this.worley(px * 2, py * 2, pz * 2, period * 2, 2)
+					const worley4 = this.worley(px * 4, py * 4, pz * 4, period * 4, 3)
+					const worley8 = this.worley(px * 8, py * 8, pz * 8, period * 8, 4)
+
+					// Remap Perlin into the Worley fBm range: billowy cells with Perlin detail
+					const perlin = this.perlinFbm(px, py, pz, period, 4, 0) * 0.5 + 0.5
+					const worley = this.worley(px, py, pz, period, 1) * 0.625 + worley2 * 0.25 + worley4 * 0.125
+
+					const index = (z * size + y) * size + x
+					perlinWorley[index] = (perlin - (worley - 1)) / (1 - (worley - 1))
+					data[index * 4 + 1] = Math.round(worley2 * 255)
+					data[index * 4 + 2] = Math.round(worley4 * 255)
+					data[index * 4 + 3] = Math.round(worley8 * 255)
+				}
+			}
+		}
+
+		// Stretch Perlin-Worley to the full [0, 1] range
+		let min = Infinity
+		let max = -Infinity
+		for (let i = 0; i < texelCount; i++) {
+			min = Math.min(min, perlinWorley[i])
+			max = Math.max(max, perlinWorley[i])
+		}
+		for (let i = 0; i < texelCount; i++) {
+			data[i * 4] = Math.round(((perlinWorley[i] - min) / Math.max(max - min, 1e-6)) * 255)
+		}
+
+		return this.createData3DTexture(data, size)
+	}
+
+	/**
+	 * Creates a tileable 3D curl noise texture (divergence-free vector field)
+	 * RGB: curl vector encoded as value * 0.5 + 0.5, A: unused (1)
+	 * @param size Texture size in texels along each axis (default: 32)
+	 * @param period Number of noise cells across the texture (default: 4)
+	 * @returns THREE.Data3DTexture with repeat wrapping and linear filtering
+	 */
+	public static createCurlNoiseTexture(size: number = 32, period: number = 4): THREE.Data3DTexture {
+		const texelCount = size * size * size
+
+		// Vector potential from three decorrelated Perlin fields
+		const potential = [new Float32Array(texelCount), new Float32Array(texelCount), new Float32Array(texelCount)]
+		for (let z = 0; z < size; z++) {
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const px = (x / size) * period
+					const py = (y / size) * period
+					const pz = (z / size) * period
+					const index = (z * size + y) * size + x
+					for (let component = 0; component < 3; component++) {
+						potential[component][index] = this.perlinFbm(px, py, pz, period, 2, 10 + component)
+					}
+				}
+			}
+		}
+
+		// Curl by central differences (wrapping keeps the result tileable)
+		const curl = new Float32Array(texelCount * 3)
+		const at = (component: number, x: number, y: number, z: number): number => {
+			const wx = (x + size) % size
+			const wy = (y + size) % size
+			const wz = (z + size) % size
+			return potential[component][(wz * size + wy) * size + wx]
+		}
+		let maxLength = 1e-6
+		for (let z = 0; z < size; z++) {
+			for (let y = 0; y < size; y++) {
+				for (let x = 0; x < size; x++) {
+					const dPzdy = at(2, x, y + 1, z) - at(2, x, y - 1, z)
+					const dPydz = at(1, x, y, z + 1) - at(1, x, y, z - 1)
+					const dPxdz = at(0, x, y, z + 1) - at(0, x, y, z - 1)
+					const dPzdx = at(2, x + 1, y, z) - at(2, x - 1, y, z)
+					const dPydx = at(1, x + 1, y, z) - at(1, x - 1, y, z)
+					const dPxdy = at(0, x, y + 1, z) - at(0, x, y - 1, z)
+
+					const index = ((z * size + y) * size + x) * 3
+					curl[index] = dPzdy - dPydz
+					curl[index + 1] = dPxdz - dPzdx
+					curl[index + 2] = dPydx - dPxdy
+					maxLength = Math.max(maxLength, Math.hypot(curl[index], curl[index + 1], curl[index + 2]))
+				}
+			}
+		}
+
+		// Normalize so the longest vector has unit length, then encode to [0, 255]
+		const data = new Uint8Array(texelCount * 4)
+		for (let i = 0; i < texelCount; i++) {
+			for (let component = 0; component < 3; component++) {
+				const value = curl[i * 3 + component] / maxLength
+				data[i * 4 + component] = Math.round((value * 0.5 + 0.5) * 255)
+			}
+			data[i * 4 + 3] = 255
+		}
+
+		return this.createData3DTexture(data, size)
+	}
+
+	/**
+	 * Creates a tileable 2D blue noise texture using the void-and-cluster method
+	 * R: rank of each texel, uniformly distributed in [0, 1) with high-frequency spatial spectrum
+	 * @param size Texture size in texels along each axis (default: 64)
+	 * @param sigma Gaussian energy filter width in texels (default: 1.5)
+	 * @returns THREE.DataTexture with repeat wrapping and nearest filtering
+	 */
+	public static createBlueNoiseTexture(size: number = 64, sigma: number = 1.5): THREE.DataTexture {
+		const texelCount = size * size
+
+		// Toroidal gaussian kernel indexed by wrapped offset
+		const kernel = new Float32Array(texelCount)
+		for (let y = 0; y < size; y++) {
+			for (let x = 0; x < size; x++) {
+				const dx = Math.min(x, size - x)
+				const dy = Math.min(y, size - y)
+				kernel[y * size + x] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma))
+			}
+		}
+
+		const pattern = new Uint8Array(texelCount)
+		const energy = new Float32Array(texelCount)
+		const splat = (index: number, sign: number): void => {
+			const px = index % size
+			const py = Math.floor(index / size)
+			for (let y = 0; y < size; y++) {
+				const ky = (((y - py) % size) + size) % size
+				for (let x = 0; x < size; x++) {
+					const kx = (((x - px) % size) + size) % size
+					energy[y * size + x] += sign * kernel[ky * size + kx]
+				}
+			}
+		}
+		// Tightest cluster: set texel with the highest energy, largest void: empty texel with the lowest
+		const find = (value: number, highest: boolean): number => {
+			let best = -1
+			let bestEnergy = highest ? -Infinity : Infinity
+			for (let i = 0; i < texelCount; i++) {
+				if (pattern[i] !== value) continue
+				if (highest ? energy[i] > bestEnergy : energy[i] < bestEnergy) {
+					bestEnergy = energy[i]
+					best = i
+				}
+			}
+			return best
+		}
+
+		// Initial binary pattern (10% random points), relaxed until the tightest cluster is the largest void
+		const initialCount = Math.max(1, Math.floor(texelCount * 0.1))
+		let placed = 0
+		for (let i = 0; placed < initialCount; i++) {
+			const index = Math.floor(this.hash(i, 0, 0, 7) * texelCount)
+			if (pattern[index] === 0) {
+				pattern[index] = 1
+				splat(index, 1)
+				placed++
+			}
+		}
+		for (let iteration = 0; iteration < texelCount; iteration++) {
+			const cluster = find(1, true)
+			pattern[cluster] = 0
+			splat(cluster, -1)
+			const gap = find(0, false)
+			pattern[gap] = 1
+			splat(gap, 1)
+			if (gap === cluster) break
+		}
+
+		const ranks = new Uint32Array(texelCount)
+		const initialPattern = pattern.slice()
+		const initialEnergy = energy.slice()
+
+		// Rank the initial points by repeatedly removing the tightest cluster
+		for (let rank = initialCount - 1; rank >= 0; rank--) {
+			const cluster = find(1, true)
+			pattern[cluster] = 0
+			splat(cluster, -1)
+			ranks[cluster] = rank
+		}
+
+		// Rank the remaining texels by repeatedly filling the largest void
+		pattern.set(initialPattern)
+		energy.set(initialEnergy)
+		for (let rank = initialCount; rank < texelCount; rank++) {
+			const gap = find(0, false)
+			pattern[gap] = 1
+			splat(gap, 1)
+			ranks[gap] = rank
+		}
+
+		const data = new Uint8Array(texelCount * 4)
+		for (let i = 0; i < texelCount; i++) {
+			const value = Math.floor((ranks[i] / texelCount) * 256)
+			data[i * 4] = value
+			data[i * 4 + 1] = value
+			data[i * 4 + 2] = value
+			data[i * 4 + 3] = 255
+		}
+
+		const texture = new THREE.DataTexture(data, size, size, THREE.RGBAFormat, THREE.UnsignedByteType)
+		texture.minFilter = THREE.NearestFilter
+		texture.magFilter = THREE.NearestFilter
+		texture.wrapS = THREE.RepeatWrapping
+		texture.wrapT = THREE.RepeatWrapping
+		texture.needsUpdate = true
+		return texture
+	}
+
+	private static createData3DTexture(data: Uint8Array, size: number): THREE.Data3DTexture {
+		const texture = new THREE.Data3DTexture(data, size, size, size)
+		texture.format = THREE.RGBAFormat
+		texture.type = THREE.UnsignedByteType
+		texture.minFilter = THREE.LinearFilter
+		texture.magFilter = THREE.LinearFilter
+		texture.wrapS = THREE.RepeatWrapping
+		texture.wrapT = THREE.RepeatWrapping
+		texture.wrapR = THREE.RepeatWrapping
+		texture.unpackAlignment = 1
+		texture.needsUpdate = true
+		return texture
+	}
+
+	// Integer lattice hash in [0, 1)
+	private static hash(x: number, y: number, z: number, seed: number): number {
+		let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(z, 2147483647) ^ Math.imul(seed, 144665)
+		h = Math.imul(h ^ (h >>> 13), 1274126177)
+		h ^= h >>> 16
+		return (h >>> 0) / 4294967296
+	}
+
+	private static fade(t: number): number {
+		return t * t * t * (t * (t * 6 - 15) + 10)
+	}
+
+	// Periodic Perlin gradient noise in [-1, 1]
+	private static perlin(x: number, y: number, z: number, period: number, seed: number): number {
+		const ix = Math.floor(x)
+		const iy = Math.floor(y)
+		const iz = Math.floor(z)
+		const fx = x - ix
+		const fy = y - iy
+		const fz = z - iz
+
+		const corner = (dx: number, dy: number, dz: number): number => {
+			const cx = (((ix + dx) % period) + period) % period
+			const cy = (((iy + dy) % period) + period) % period
+			const cz = (((iz + dz) % period) + period) % period
+			const gradient = PERLIN_GRADIENTS[Math.floor(this.hash(cx, cy, cz, seed) * PERLIN_GRADIENTS.length)]
+			return gradient[0] * (fx - dx) + gradient[1] * (fy - dy) + gradient[2] * (fz - dz)
+		}
+
+		const u = this.fade(fx)
+		const v = this.fade(fy)
+		const w = this.fade(fz)
+
+		const x00 = THREE.MathUtils.lerp(corner(0, 0, 0), corner(1, 0, 0), u)
+		const x10 = THREE.MathUtils.lerp(corner(0, 1, 0), corner(1, 1, 0), u)
+		const x01 = THREE.MathUtils.lerp(corner(0, 0, 1), corner(1, 0, 1), u)
+		const x11 = THREE.MathUtils.lerp(corner(0, 1, 1), corner(1, 1, 1), u)
+
+		return THREE.MathUtils.lerp(THREE.MathUtils.lerp(x00, x10, v), THREE.MathUtils.lerp(x01, x11, v), w)
+	}
+
+	// Periodic Perlin fBm, each octave doubles frequency and period so the sum stays tileable
+	private static perlinFbm(x: number, y: number, z: number, period: number, octaves: number, seed: number): number {
+		let sum = 0
+		let amplitude = 1
+		let total = 0
+		let frequency = 1
+		for (let octave = 0; octave < octaves; octave++) {
+			sum += this.perlin(x * frequency, y * frequency, z * frequency, period * frequency, seed + octave) * amplitude
+			total += amplitude
+			amplitude *= 0.5
+			frequency *= 2
+		}
+		return sum / total
+	}
+
+	// Periodic inverted Worley (cellular) noise in [0, 1], 1 at feature points
+	private static worley(x: number, y: number, z: number, period: number, seed: number): number {
+		const ix = Math.floor(x)
+		const iy = Math.floor(y)
+		const iz = Math.floor(z)
+		let minDistanceSq = Infinity
+
+		for (let dz = -1; dz <= 1; dz++) {
+			for (let dy = -1; dy <= 1; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					const cx = ix + dx
+					const cy = iy + dy
+					const cz = iz + dz
+					// Wrap cell coordinates for the feature point lookup only
+					const wx = ((cx % period) + period) % period
+					const wy = ((cy % period) + period) % period
+					const wz = ((cz % period) + period) % period
+
+					const fx = cx + this.hash(wx, wy, wz, seed) - x
+					const fy = cy + this.hash(wx, wy, wz, seed + 101) - y
+					const fz = cz + this.hash(wx, wy, wz, seed + 202) - z
+					minDistanceSq = Math.min(minDistanceSq, fx * fx + fy * fy + fz * fz)
+				}
+			}
+		}
+
+		return 1 - THREE.MathUtils.clamp(Math.sqrt(minDistanceSq), 0, 1)
+	}
+}
@@ -0,0 +1,51 @@
+import * as THREE from 'three'
+import { WindSway } from '../wind/WindSway'
+
+// Instanced attribute holding last frame's instance matrices (read by objectVelocity.vert.glsl)
+export const PREVIOUS_INSTANCE_MATRIX_ATTRIBUTE = 'previousInstanceMatrix'
+
+/**
+ * Last frame's world matrices of the rendered meshes, of every instance of an InstancedMesh and the
+ * wind sway bends, for per-object motion vectors. Objects seen for the first time report their current matrices
+ * (no motion). Call commit() once per frame after everything that needs the previous state rendered.
+ */
+export class ObjectMotionHistory {
+	private matrices: WeakMap<THREE.Object3D, THREE.Matrix4> = new WeakMap()
+
+	public getPreviousMatrix(object: THREE.Object3D): THREE.Matrix4 {
+		let matrix = this.matrices.get(object)
+		if (!matrix) {
+			matrix = object.matrixWorld.clone()
+			this.matrices.set(object, matrix)
+		}
+		return matrix
+	}
+
+	/**
+	 * Makes sure the mesh geometry carries last frame's instance matrices
+	 */
+	public trackInstances(mesh: THREE.InstancedMesh): void {
+		const geometry = mesh.geometry
+		const current = mesh.instanceMatrix.array as Float32Array
+		const attribute = geometry.getAttribute(PREVIOUS_INSTANCE_MATRIX_ATTRIBUTE)
+		if (!attribute || attribute.array.length !== current.length) {
+			geometry.setAttribute(PREVIOUS_INSTANCE_MATRIX_ATTRIBUTE, new THREE.InstancedBufferAttribute(current.slice(), 16))
+		}
+	}
+
+	public commit(scene: THREE.Scene): void {
+		scene.traverseVisible((object) => {
+			if (!(object instanceof THREE.Mesh)) return
+
+			this.getPreviousMatrix(object).copy(object.matrixWorld)
+			WindSway.get(object)?.commitBend()
+
+			const previous = object.geometry.getAttribute(PREVIOUS_INSTANCE_MATRIX_ATTRIBUTE)
+			if (object instanceof THREE.InstancedMesh && previous?.array.length === object.instanceMatrix.array.length) {
+				const array = previous.array as Float32Array
+				array.set(object.instanceMatrix.array)
+				previous.needsUpdate = true
+			}
+		})
+	}
+}
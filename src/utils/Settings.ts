@@ -1,26 +1,86 @@
 import * as dat from 'dat.gui'
 import { Pipeline } from '../Pipeline'
+import { FogPhaseModel } from '../materials/FogMaterial'
+import { FogCompositeMode } from '../materials/ComposeMaterial'
+import { DEBUG_VIEWS, DEBUG_VIEW_LAYOUTS, DebugView, DebugViewLayout } from '../materials/DebugViewMaterial'
 import { Scene } from '../Scene'
 import { SettingsStorage } from './SettingsStorage'
+import { ResourceLoader } from '../loaders/ResourceLoader'
+import { TONE_MAPPING_OPERATORS, ToneMappingOperator } from '../postprocess/ToneMappingPass'
+import { DEPTH_OF_FIELD_FOCUS_MODES, DepthOfFieldFocusMode } from '../postprocess/DepthOfFieldPass'
 
 export interface SettingsData {
 	render: {
 		downsampling: number
+		fogInterleave: number
+		taa: boolean
+		stochasticTransparency: boolean
+		ambientOcclusion: boolean
+		ambientOcclusionRadius: number
+		ambientOcclusionIntensity: number
+		ambientOcclusionSamples: number
+		dynamicResolution: boolean
+		targetFps: number
+		minRenderScale: number
+		dynamicColorScale: boolean
+		profiler: boolean
+		debugView: DebugView
+		debugViewLayout: DebugViewLayout
 	}
 	fog: {
 		lightMultiplier: number
 		warpSpeed: number
 		blendFactor: number
 		fogBlur: number
+		depthAwareUpsample: boolean
 		fogSteps: number
-		rayNoiseScale: number
+		bakedNoise: boolean
+		stepDistanceScale: number
+		minTransmittance: number
+		emptySpaceSkipping: boolean
+		emptySpaceThreshold: number
+		stepHeatmap: boolean
+		volumetricShadows: boolean
+		volumetricShadowInterval: number
+		phaseModel: FogPhaseModel
+		phaseG: number
+		phaseG2: number
+		phaseLobeBlend: number
+		scattering: [number, number, number]
+		absorption: [number, number, number]
 	}
 	particles: {
 		brightness: number
 	}
+	wind: {
+		direction: number
+		speed: number
+		gustStrength: number
+		gustFrequency: number
+		turbulence: number
+	}
 	postProcessing: {
+		fogComposite: FogCompositeMode
+		toneMapping: ToneMappingOperator
+		dofEnabled: boolean
+		dofFStop: number
+		dofFocusDistance: number
+		dofFocusMode: DepthOfFieldFocusMode
+		dofMaxBlur: number
+		motionBlurEnabled: boolean
+		motionBlurIntensity: number
+		motionBlurSamples: number
+		motionBlurMaxBlur: number
+		bloomEnabled: boolean
+		bloomThreshold: number
+		bloomKnee: number
+		bloomIntensity: number
+		bloomRadius: number
+		lutStrength: number // The LUT itself is stored separately (SettingsStorage.saveLUT)
+		vignetteEnabled: boolean
 		vignetteIntensity: number
 		vignetteRadius: number
+		colorCorrectionEnabled: boolean
 		exposure: number
 		contrast: number
 		saturation: number
@@ -40,21 +100,75 @@ export class Settings {
 		return {
 			render: {
 				downsampling: 2,
+				fogInterleave: 1,
+				taa: true,
+				stochasticTransparency: false,
+				ambientOcclusion: true,
+				ambientOcclusionRadius: 0.5,
+				ambientOcclusionIntensity: 1.0,
+				ambientOcclusionSamples: 8,
+				dynamicResolution: false,
+				targetFps: 60,
+				minRenderScale: 0.5,
+				dynamicColorScale: false,
+				profiler: false,
+				debugView: 'final',
+				debugViewLayout: 'fullscreen',
 			},
 			fog: {
 				lightMultiplier: 0.9,
 				warpSpeed: 0.4,
 				blendFactor: 0.75,
 				fogBlur: 2.0,
+				depthAwareUpsample: true,
 				fogSteps: 55,
-				rayNoiseScale: 0.012,
+				bakedNoise: true,
+				stepDistanceScale: 0.04,
+				minTransmittance: 0.01,
+				emptySpaceSkipping: true,
+				emptySpaceThreshold: 0.01,
+				stepHeatmap: false,
+				volumetricShadows: true,
+				volumetricShadowInterval: 1,
+				phaseModel: 'henyeyGreenstein',
+				phaseG: 0.1,
+				phaseG2: -0.3,
+				phaseLobeBlend: 0.7,
+				scattering: [1.0, 1.0, 1.0],
+				absorption: [0.0, 0.0, 0.0],
 			},
 			particles: {
 				brightness: 0.3,
 			},
+			wind: {
+				direction: 30,
+				speed: 0.15,
+				gustStrength: 0.6,
+				gustFrequency: 0.2,
+				turbulence: 0.4,
+			},
 			postProcessing: {
+				fogComposite: 'additive',
+				toneMapping: 'aces',
+				dofEnabled: false,
+				dofFStop: 2.8,
+				dofFocusDistance: 3.0,
+				dofFocusMode: 'target',
+				dofMaxBlur: 24,
+				motionBlurEnabled: false,
+				motionBlurIntensity: 0.5,
+				motionBlurSamples: 12,
+				motionBlurMaxBlur: 32,
+				bloomEnabled: true,
+				bloomThreshold: 1.0,
+				bloomKnee: 0.5,
+				bloomIntensity: 0.15,
+				bloomRadius: 0.7,
+				lutStrength: 1.0,
+				vignetteEnabled: true,
 				vignetteIntensity: 0.61,
 				vignetteRadius: 0.85,
+				colorCorrectionEnabled: true,
 				exposure: 1.46,
 				contrast: 1.11,
 				saturation: 0.65,
@@ -80,6 +194,10 @@ export class Settings {
 		if (data.particles) {
 			this.data.particles = { ...this.data.particles, ...data.particles }
 		}
+		if (data.wind) {
+			const defaultWind = Settings.getDefaults().wind
+			this.data.wind = { ...defaultWind, ...this.data.wind, ...data.wind }
+		}
 		if (data.postProcessing) {
 			const defaultPostProcessing = Settings.getDefaults().postProcessing
 			this.data.postProcessing = { ...defaultPostProcessing, ...this.data.postProcessing, ...data.postProcessing }
@@ -95,6 +213,118 @@ export class Settings {
 		this.data.render.downsampling = value
 	}
 
+	getFogInterleave(): number {
+		return this.data.render.fogInterleave
+	}
+
+	setFogInterleave(value: number): void {
+		this.data.render.fogInterleave = value
+	}
+
+	getDynamicResolution(): boolean {
+		return this.data.render.dynamicResolution
+	}
+
+	setDynamicResolution(value: boolean): void {
+		this.data.render.dynamicResolution = value
+	}
+
+	getTargetFps(): number {
+		return this.data.render.targetFps
+	}
+
+	setTargetFps(value: number): void {
+		this.data.render.targetFps = value
+	}
+
+	getMinRenderScale(): number {
+		return this.data.render.minRenderScale
+	}
+
+	setMinRenderScale(value: number): void {
+		this.data.render.minRenderScale = value
+	}
+
+	getAmbientOcclusion(): boolean {
+		return this.data.render.ambientOcclusion
+	}
+
+	setAmbientOcclusion(value: boolean): void {
+		this.data.render.ambientOcclusion = value
+	}
+
+	getAmbientOcclusionRadius(): number {
+		return this.data.render.ambientOcclusionRadius
+	}
+
+	setAmbientOcclusionRadius(value: number): void {
+		this.data.render.ambientOcclusionRadius = value
+	}
+
+	getAmbientOcclusionIntensity(): number {
+		return this.data.render.ambientOcclusionIntensity
+	}
+
+	setAmbientOcclusionIntensity(value: number): void {
+		this.data.render.ambientOcclusionIntensity = value
+	}
+
+	getAmbientOcclusionSamples(): number {
+		return this.data.render.ambientOcclusionSamples
+	}
+
+	setAmbientOcclusionSamples(value: number): void {
+		this.data.render.ambientOcclusionSamples = value
+	}
+
+	getDynamicColorScale(): boolean {
+		return this.data.render.dynamicColorScale
+	}
+
+	setDynamicColorScale(value: boolean): void {
+		this.data.render.dynamicColorScale = value
+	}
+
+	getProfiler(): boolean {
+		return this.data.render.profiler
+	}
+
+	setProfiler(value: boolean): void {
+		this.data.render.profiler = value
+	}
+
+	getDebugView(): DebugView {
+		return this.data.render.debugView
+	}
+
+	setDebugView(value: DebugView): void {
+		this.data.render.debugView = value
+	}
+
+	getDebugViewLayout(): DebugViewLayout {
+		return this.data.render.debugViewLayout
+	}
+
+	setDebugViewLayout(value: DebugViewLayout): void {
+		this.data.render.debugViewLayout = value
+	}
+
+	getTAA(): boolean {
+		return this.data.render.taa
+	}
+
+	setTAA(value: boolean): void {
+		this.data.render.taa = value
+	}
+
+	getStochasticTransparency(): boolean {
+		return this.data.render.stochasticTransparency
+	}
+
+	setStochasticTransparency(value: boolean): void {
+		this.data.render.stochasticTransparency = value
+	}
+
 	// Fog
 	getFogLightMultiplier(): number {
 		return this.data.fog.lightMultiplier
@@ -128,6 +358,14 @@ export class Settings {
 		this.data.fog.fogBlur = value
 	}
 
+	getDepthAwareUpsample(): boolean {
+		return this.data.fog.depthAwareUpsample
+	}
+
+	setDepthAwareUpsample(value: boolean): void {
+		this.data.fog.depthAwareUpsample = value
+	}
+
 	getFogSteps(): number {
 		return this.data.fog.fogSteps
 	}
@@ -136,12 +374,116 @@ export class Settings {
 		this.data.fog.fogSteps = value
 	}
 
-	getRayNoiseScale(): number {
-		return this.data.fog.rayNoiseScale
+	getFogBakedNoise(): boolean {
+		return this.data.fog.bakedNoise
+	}
+
+	setFogBakedNoise(value: boolean): void {
+		this.data.fog.bakedNoise = value
+	}
+
+	getFogStepDistanceScale(): number {
+		return this.data.fog.stepDistanceScale
+	}
+
+	setFogStepDistanceScale(value: number): void {
+		this.data.fog.stepDistanceScale = value
+	}
+
+	getFogMinTransmittance(): number {
+		return this.data.fog.minTransmittance
+	}
+
+	setFogMinTransmittance(value: number): void {
+		this.data.fog.minTransmittance = value
+	}
+
+	getFogEmptySpaceSkipping(): boolean {
+		return this.data.fog.emptySpaceSkipping
+	}
+
+	setFogEmptySpaceSkipping(value: boolean): void {
+		this.data.fog.emptySpaceSkipping = value
+	}
+
+	getFogEmptySpaceThreshold(): number {
+		return this.data.fog.emptySpaceThreshold
+	}
+
+	setFogEmptySpaceThreshold(value: number): void {
+		this.data.fog.emptySpaceThreshold = value
+	}
+
+	getFogStepHeatmap(): boolean {
+		return this.data.fog.stepHeatmap
+	}
+
+	setFogStepHeatmap(value: boolean): void {
+		this.data.fog.stepHeatmap = value
+	}
+
+	getFogVolumetricShadows(): boolean {
+		return this.data.fog.volumetricShadows
+	}
+
+	setFogVolumetricShadows(value: boolean): void {
+		this.data.fog.volumetricShadows = value
+	}
+
+	getFogVolumetricShadowInterval(): number {
+		return this.data.fog.volumetricShadowInterval
 	}
 
-	setRayNoiseScale(value: number): void {
-		this.data.fog.rayNoiseScale = value
+	setFogVolumetricShadowInterval(value: number): void {
+		this.data.fog.volumetricShadowInterval = value
+	}
+
+	getFogPhaseModel(): FogPhaseModel {
+		return this.data.fog.phaseModel
+	}
+
+	setFogPhaseModel(value: FogPhaseModel): void {
+		this.data.fog.phaseModel = value
+	}
+
+	getFogPhaseG(): number {
+		return this.data.fog.phaseG
+	}
+
+	setFogPhaseG(value: number): void {
+		this.data.fog.phaseG = value
+	}
+
+	getFogPhaseG2(): number {
+		return this.data.fog.phaseG2
+	}
+
+	setFogPhaseG2(value: number): void {
+		this.data.fog.phaseG2 = value
+	}
+
+	getFogPhaseLobeBlend(): number {
+		return this.data.fog.phaseLobeBlend
+	}
+
+	setFogPhaseLobeBlend(value: number): void {
+		this.data.fog.phaseLobeBlend = value
+	}
+
+	getFogScattering(): [number, number, number] {
+		return this.data.fog.scattering
+	}
+
+	setFogScattering(value: [number, number, number]): void {
+		this.data.fog.scattering = value
+	}
+
+	getFogAbsorption(): [number, number, number] {
+		return this.data.fog.absorption
+	}
+
+	setFogAbsorption(value: [number, number, number]): void {
+		this.data.fog.absorption = value
 	}
 
 	// Particles
@@ -153,7 +495,192 @@ export class Settings {
 		this.data.particles.brightness = value
 	}
 
+	// Wind
+	getWindDirection(): number {
+		return this.data.wind.direction
+	}
+
+	setWindDirection(value: number): void {
+		this.data.wind.direction = value
+	}
+
+	getWindSpeed(): number {
+		return this.data.wind.speed
+	}
+
+	setWindSpeed(value: number): void {
+		this.data.wind.speed = value
+	}
+
+	getWindGustStrength(): number {
+		return this.data.wind.gustStrength
+	}
+
+	setWindGustStrength(value: number): void {
+		this.data.wind.gustStrength = value
+	}
+
+	getWindGustFrequency(): number {
+		return this.data.wind.gustFrequency
+	}
+
+	setWindGustFrequency(value: number): void {
+		this.data.wind.gustFrequency = value
+	}
+
+	getWindTurbulence(): number {
+		return this.data.wind.turbulence
+	}
+
+	setWindTurbulence(value: number): void {
+		this.data.wind.turbulence = value
+	}
+
 	// Post Processing
+	getFogComposite(): FogCompositeMode {
+		return this.data.postProcessing.fogComposite
+	}
+
+	setFogComposite(value: FogCompositeMode): void {
+		this.data.postProcessing.fogComposite = value
+	}
+
+	getToneMapping(): ToneMappingOperator {
+		return this.data.postProcessing.toneMapping
+	}
+
+	setToneMapping(value: ToneMappingOperator): void {
+		this.data.postProcessing.toneMapping = value
+	}
+
+	getDofEnabled(): boolean {
+		return this.data.postProcessing.dofEnabled
+	}
+
+	setDofEnabled(value: boolean): void {
+		this.data.postProcessing.dofEnabled = value
+	}
+
+	getDofFStop(): number {
+		return this.data.postProcessing.dofFStop
+	}
+
+	setDofFStop(value: number): void {
+		this.data.postProcessing.dofFStop = value
+	}
+
+	getDofFocusDistance(): number {
+		return this.data.postProcessing.dofFocusDistance
+	}
+
+	setDofFocusDistance(value: number): void {
+		this.data.postProcessing.dofFocusDistance = value
+	}
+
+	getDofFocusMode(): DepthOfFieldFocusMode {
+		return this.data.postProcessing.dofFocusMode
+	}
+
+	setDofFocusMode(value: DepthOfFieldFocusMode): void {
+		this.data.postProcessing.dofFocusMode = value
+	}
+
+	getDofMaxBlur(): number {
+		return this.data.postProcessing.dofMaxBlur
+	}
+
+	setDofMaxBlur(value: number): void {
+		this.data.postProcessing.dofMaxBlur = value
+	}
+
+	getMotionBlurEnabled(): boolean {
+		return this.data.postProcessing.motionBlurEnabled
+	}
+
+	setMotionBlurEnabled(value: boolean): void {
+		this.data.postProcessing.motionBlurEnabled = value
+	}
+
+	getMotionBlurIntensity(): number {
+		return this.data.postProcessing.motionBlurIntensity
+	}
+
+	setMotionBlurIntensity(value: number): void {
+		this.data.postProcessing.motionBlurIntensity = value
+	}
+
+	getMotionBlurSamples(): number {
+		return this.data.postProcessing.motionBlurSamples
+	}
+
+	setMotionBlurSamples(value: number): void {
+		this.data.postProcessing.motionBlurSamples = value
+	}
+
+	getMotionBlurMaxBlur(): number {
+		return this.data.postProcessing.motionBlurMaxBlur
+	}
+
+	setMotionBlurMaxBlur(value: number): void {
+		this.data.postProcessing.motionBlurMaxBlur = value
+	}
+
+	getBloomEnabled(): boolean {
+		return this.data.postProcessing.bloomEnabled
+	}
+
+	setBloomEnabled(value: boolean): void {
+		this.data.postProcessing.bloomEnabled = value
+	}
+
+	getBloomThreshold(): number {
+		return this.data.postProcessing.bloomThreshold
+	}
+
+	setBloomThreshold(value: number): void {
+		this.data.postProcessing.bloomThreshold = value
+	}
+
+	getBloomKnee(): number {
+		return this.data.postProcessing.bloomKnee
+	}
+
+	setBloomKnee(value: number): void {
+		this.data.postProcessing.bloomKnee = value
+	}
+
+	getBloomIntensity(): number {
+		return this.data.postProcessing.bloomIntensity
+	}
+
+	setBloomIntensity(value: number): void {
+		this.data.postProcessing.bloomIntensity = value
+	}
+
+	getBloomRadius(): number {
+		return this.data.postProcessing.bloomRadius
+	}
+
+	setBloomRadius(value: number): void {
+		this.data.postProcessing.bloomRadius = value
+	}
+
+	getLUTStrength(): number {
+		return this.data.postProcessing.lutStrength
+	}
+
+	setLUTStrength(value: number): void {
+		this.data.postProcessing.lutStrength = value
+	}
+
+	getVignetteEnabled(): boolean {
+		return this.data.postProcessing.vignetteEnabled
+	}
+
+	setVignetteEnabled(value: boolean): void {
+		this.data.postProcessing.vignetteEnabled = value
+	}
+
 	getVignetteIntensity(): number {
 		return this.data.postProcessing.vignetteIntensity
 	}
@@ -170,6 +697,14 @@ export class Settings {
 		this.data.postProcessing.vignetteRadius = value
 	}
 
+	getColorCorrectionEnabled(): boolean {
+		return this.data.postProcessing.colorCorrectionEnabled
+	}
+
+	setColorCorrectionEnabled(value: boolean): void {
+		this.data.postProcessing.colorCorrectionEnabled = value
+	}
+
 	getExposure(): number {
 		return this.data.postProcessing.exposure
 	}
@@ -205,7 +740,8 @@ export class Settings {
 	public setupGUI(
 		pipeline: Pipeline,
 		scene: Scene,
-		settingsStorage: SettingsStorage | null
+		settingsStorage: SettingsStorage | null,
+		resourceLoader: ResourceLoader
 	): void {
 		this.gui = new dat.GUI()
 
@@ -220,6 +756,150 @@ export class Settings {
 			pipeline.setDownsamplingFactor(value)
 			this.saveSettings(settingsStorage)
 		})
+		// Ray-march 1/1, 1/2 (checkerboard) or 1/4 of the fog pixels per frame
+		const fogInterleaveController = renderFolder.add(
+			{ fogInterleave: this.getFogInterleave() },
+			'fogInterleave',
+			[1, 2, 4]
+		)
+		fogInterleaveController.onChange((value: number | string) => {
+			this.setFogInterleave(Number(value))
+			pipeline.setFogInterleave(Number(value))
+			this.saveSettings(settingsStorage)
+		})
+		const taaController = renderFolder.add({ taa: this.getTAA() }, 'taa')
+		taaController.onChange((value: boolean) => {
+			this.setTAA(value)
+			pipeline.setTAAEnabled(value)
+			this.saveSettings(settingsStorage)
+		})
+		const stochasticTransparencyController = renderFolder.add(
+			{ stochasticTransparency: this.getStochasticTransparency() },
+			'stochasticTransparency'
+		)
+		stochasticTransparencyController.onChange((value: boolean) => {
+			this.setStochasticTransparency(value)
+			pipeline.setStochasticTransparencyEnabled(value)
+			this.saveSettings(settingsStorage)
+		})
+
+		// Per-pass timing overlay
+		const profilerController = renderFolder.add({ profiler: this.getProfiler() }, 'profiler')
+		profilerController.onChange((value: boolean) => {
+			this.setProfiler(value)
+			pipeline.getProfiler().enabled = value
+			this.saveSettings(settingsStorage)
+		})
+
+		// Screen-space ambient occlusion on the ambient light (radius in meters, samples per horizon side)
+		const ambientOcclusionFolder = renderFolder.addFolder('Ambient Occlusion')
+		const ambientOcclusionController = ambientOcclusionFolder.add({ enabled: this.getAmbientOcclusion() }, 'enabled')
+		ambientOcclusionController.onChange((value: boolean) => {
+			this.setAmbientOcclusion(value)
+			pipeline.setAmbientOcclusionEnabled(value)
+			this.saveSettings(settingsStorage)
+		})
+		const ambientOcclusionRadiusController = ambientOcclusionFolder.add(
+			{ radius: this.getAmbientOcclusionRadius() },
+			'radius',
+			0.05,
+			2.0,
+			0.05
+		)
+		ambientOcclusionRadiusController.onChange((value: number) => {
+			this.setAmbientOcclusionRadius(value)
+			pipeline.setAmbientOcclusionRadius(value)
+			this.saveSettings(settingsStorage)
+		})
+		const ambientOcclusionIntensityController = ambientOcclusionFolder.add(
+			{ intensity: this.getAmbientOcclusionIntensity() },
+			'intensity',
+			0.0,
+			4.0,
+			0.05
+		)
+		ambientOcclusionIntensityController.onChange((value: number) => {
+			this.setAmbientOcclusionIntensity(value)
+			pipeline.setAmbientOcclusionIntensity(value)
+			this.saveSettings(settingsStorage)
+		})
+		const ambientOcclusionSamplesController = ambientOcclusionFolder.add(
+			{ samples: this.getAmbientOcclusionSamples() },
+			'samples',
+			1,
+			32,
+			1
+		)
+		ambientOcclusionSamplesController.onChange((value: number) => {
+			this.setAmbientOcclusionSamples(value)
+			pipeline.setAmbientOcclusionSamples(value)
+			this.saveSettings(settingsStorage)
+		})
+
+		// Dynamic resolution: fog (then optionally color) render scale follows the measured frame work time
+		const dynamicResolution = pipeline.getDynamicResolution()
+		const dynamicResolutionFolder = renderFolder.addFolder('Dynamic Resolution')
+		const dynamicResolutionController = dynamicResolutionFolder.add(
+			{ enabled: this.getDynamicResolution() },
+			'enabled'
+		)
+		dynamicResolutionController.onChange((value: boolean) => {
+			this.setDynamicResolution(value)
+			dynamicResolution.enabled = value
+			this.saveSettings(settingsStorage)
+		})
+		const targetFpsController = dynamicResolutionFolder.add(
+			{ targetFps: this.getTargetFps() },
+			'targetFps',
+			20,
+			144,
+			1
+		)
+		targetFpsController.onChange((value: number) => {
+			this.setTargetFps(value)
+			dynamicResolution.targetFps = value
+			this.saveSettings(settingsStorage)
+		})
+		const minRenderScaleController = dynamicResolutionFolder.add(
+			{ minScale: this.getMinRenderScale() },
+			'minScale',
+			0.25,
+			1.0,
+			0.05
+		)
+		minRenderScaleController.onChange((value: number) => {
+			this.setMinRenderScale(value)
+			dynamicResolution.minScale = value
+			this.saveSettings(settingsStorage)
+		})
+		const dynamicColorScaleController = dynamicResolutionFolder.add(
+			{ scaleColor: this.getDynamicColorScale() },
+			'scaleColor'
+		)
+		dynamicColorScaleController.onChange((value: boolean) => {
+			this.setDynamicColorScale(value)
+			dynamicResolution.scaleColor = value
+			this.saveSettings(settingsStorage)
+		})
+
+		// Intermediate buffer shown fullscreen, on the left half or as an inset next to the final image
+		const debugViewFolder = renderFolder.addFolder('Debug View')
+		const debugViewController = debugViewFolder.add({ view: this.getDebugView() }, 'view', DEBUG_VIEWS)
+		debugViewController.onChange((value: DebugView) => {
+			this.setDebugView(value)
+			pipeline.setDebugView(value)
+			this.saveSettings(settingsStorage)
+		})
+		const debugViewLayoutController = debugViewFolder.add(
+			{ layout: this.getDebugViewLayout() },
+			'layout',
+			DEBUG_VIEW_LAYOUTS
+		)
+		debugViewLayoutController.onChange((value: DebugViewLayout) => {
+			this.setDebugViewLayout(value)
+			pipeline.setDebugViewLayout(value)
+			this.saveSettings(settingsStorage)
+		})
 		renderFolder.open()
 
 		const fogFolder = this.gui.addFolder('Fog')
@@ -270,20 +950,184 @@ export class Settings {
 				this.saveSettings(settingsStorage)
 			})
 
-			const rayNoiseScaleController = fogFolder.add(
-				{ rayNoiseScale: this.getRayNoiseScale() },
-				'rayNoiseScale',
-				0.001,
-				0.03,
+			const bakedNoiseController = fogFolder.add({ bakedNoise: this.getFogBakedNoise() }, 'bakedNoise')
+			bakedNoiseController.onChange((value: boolean) => {
+				this.setFogBakedNoise(value)
+				pipeline.setBakedNoiseEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Ray march
+			const rayMarchFolder = fogFolder.addFolder('Ray March')
+			const stepDistanceScaleController = rayMarchFolder.add(
+				{ stepDistanceScale: this.getFogStepDistanceScale() },
+				'stepDistanceScale',
+				0.0,
+				0.2,
+				0.005
+			)
+			stepDistanceScaleController.onChange((value: number) => {
+				this.setFogStepDistanceScale(value)
+				if (fogMaterial.uniforms.stepDistanceScale) {
+					fogMaterial.uniforms.stepDistanceScale.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			const minTransmittanceController = rayMarchFolder.add(
+				{ minTransmittance: this.getFogMinTransmittance() },
+				'minTransmittance',
+				0.0,
+				0.1,
+				0.001
+			)
+			minTransmittanceController.onChange((value: number) => {
+				this.setFogMinTransmittance(value)
+				if (fogMaterial.uniforms.minTransmittance) {
+					fogMaterial.uniforms.minTransmittance.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			const emptySpaceSkippingController = rayMarchFolder.add(
+				{ emptySpaceSkipping: this.getFogEmptySpaceSkipping() },
+				'emptySpaceSkipping'
+			)
+			emptySpaceSkippingController.onChange((value: boolean) => {
+				this.setFogEmptySpaceSkipping(value)
+				pipeline.setEmptySpaceSkippingEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			const emptySpaceThresholdController = rayMarchFolder.add(
+				{ emptySpaceThreshold: this.getFogEmptySpaceThreshold() },
+				'emptySpaceThreshold',
+				0.0,
+				0.1,
 				0.001
 			)
-			rayNoiseScaleController.onChange((value: number) => {
-				this.setRayNoiseScale(value)
-				if (fogMaterial.uniforms.rayNoiseScale) {
-					fogMaterial.uniforms.rayNoiseScale.value = value
+			emptySpaceThresholdController.onChange((value: number) => {
+				this.setFogEmptySpaceThreshold(value)
+				if (fogMaterial.uniforms.emptySpaceThreshold) {
+					fogMaterial.uniforms.emptySpaceThreshold.value = value
 				}
 				this.saveSettings(settingsStorage)
 			})
+
+			const stepHeatmapController = rayMarchFolder.add({ stepHeatmap: this.getFogStepHeatmap() }, 'stepHeatmap')
+			stepHeatmapController.onChange((value: boolean) => {
+				this.setFogStepHeatmap(value)
+				if (fogMaterial.uniforms.showStepHeatmap) {
+					fogMaterial.uniforms.showStepHeatmap.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			// Volumetric shadows (fog onto itself and the scene geometry)
+			const shadowsFolder = fogFolder.addFolder('Shadows')
+			const volumetricShadowsController = shadowsFolder.add(
+				{ volumetricShadows: this.getFogVolumetricShadows() },
+				'volumetricShadows'
+			)
+			volumetricShadowsController.onChange((value: boolean) => {
+				this.setFogVolumetricShadows(value)
+				pipeline.setVolumetricShadowsEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			const volumetricShadowIntervalController = shadowsFolder.add(
+				{ updateInterval: this.getFogVolumetricShadowInterval() },
+				'updateInterval',
+				1,
+				8,
+				1
+			)
+			volumetricShadowIntervalController.onChange((value: number) => {
+				this.setFogVolumetricShadowInterval(value)
+				pipeline.setVolumetricShadowInterval(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Scattering model
+			const scatteringFolder = fogFolder.addFolder('Scattering')
+			const phaseModelController = scatteringFolder.add(
+				{ phaseModel: this.getFogPhaseModel() },
+				'phaseModel',
+				['henyeyGreenstein', 'dualLobe', 'rayleigh', 'cornetteShanks']
+			)
+			phaseModelController.onChange((value: FogPhaseModel) => {
+				this.setFogPhaseModel(value)
+				fogMaterial.setPhaseModel(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			const phaseGController = scatteringFolder.add({ phaseG: this.getFogPhaseG() }, 'phaseG', -0.99, 0.99, 0.01)
+			phaseGController.onChange((value: number) => {
+				this.setFogPhaseG(value)
+				if (fogMaterial.uniforms.phaseG) {
+					fogMaterial.uniforms.phaseG.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			const phaseG2Controller = scatteringFolder.add({ phaseG2: this.getFogPhaseG2() }, 'phaseG2', -0.99, 0.99, 0.01)
+			phaseG2Controller.onChange((value: number) => {
+				this.setFogPhaseG2(value)
+				if (fogMaterial.uniforms.phaseG2) {
+					fogMaterial.uniforms.phaseG2.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			const phaseLobeBlendController = scatteringFolder.add(
+				{ phaseLobeBlend: this.getFogPhaseLobeBlend() },
+				'phaseLobeBlend',
+				0.0,
+				1.0,
+				0.01
+			)
+			phaseLobeBlendController.onChange((value: number) => {
+				this.setFogPhaseLobeBlend(value)
+				if (fogMaterial.uniforms.phaseLobeBlend) {
+					fogMaterial.uniforms.phaseLobeBlend.value = value
+				}
+				this.saveSettings(settingsStorage)
+			})
+
+			// Per-channel coefficients, one slider per RGB channel
+			const channels = ['R', 'G', 'B']
+			channels.forEach((channel, index) => {
+				const scatteringController = scatteringFolder.add(
+					{ [`scattering${channel}`]: this.getFogScattering()[index] },
+					`scattering${channel}`,
+					0.0,
+					3.0,
+					0.01
+				)
+				scatteringController.onChange((value: number) => {
+					const scattering: [number, number, number] = [...this.getFogScattering()]
+					scattering[index] = value
+					this.setFogScattering(scattering)
+					fogMaterial.setScatteringCoefficient(...scattering)
+					this.saveSettings(settingsStorage)
+				})
+			})
+			channels.forEach((channel, index) => {
+				const absorptionController = scatteringFolder.add(
+					{ [`absorption${channel}`]: this.getFogAbsorption()[index] },
+					`absorption${channel}`,
+					0.0,
+					3.0,
+					0.01
+				)
+				absorptionController.onChange((value: number) => {
+					const absorption: [number, number, number] = [...this.getFogAbsorption()]
+					absorption[index] = value
+					this.setFogAbsorption(absorption)
+					fogMaterial.setAbsorptionCoefficient(...absorption)
+					this.saveSettings(settingsStorage)
+				})
+			})
 		}
 
 		const fogBlendMaterial = pipeline.getFogBlendMaterial()
@@ -316,6 +1160,16 @@ export class Settings {
 				pipeline.setFogBlurRadius(value)
 				this.saveSettings(settingsStorage)
 			})
+
+			const depthAwareUpsampleController = fogFolder.add(
+				{ depthAwareUpsample: this.getDepthAwareUpsample() },
+				'depthAwareUpsample'
+			)
+			depthAwareUpsampleController.onChange((value: boolean) => {
+				this.setDepthAwareUpsample(value)
+				pipeline.setDepthAwareUpsample(value)
+				this.saveSettings(settingsStorage)
+			})
 		}
 		fogFolder.open()
 
@@ -334,9 +1188,285 @@ export class Settings {
 		})
 		particlesFolder.open()
 
+		const windFolder = this.gui.addFolder('Wind')
+		const windDirectionController = windFolder.add(
+			{ direction: this.getWindDirection() },
+			'direction',
+			0,
+			360,
+			1
+		)
+		windDirectionController.onChange((value: number) => {
+			this.setWindDirection(value)
+			scene.wind.direction = value
+			this.saveSettings(settingsStorage)
+		})
+
+		const windSpeedController = windFolder.add({ speed: this.getWindSpeed() }, 'speed', 0.0, 1.0, 0.01)
+		windSpeedController.onChange((value: number) => {
+			this.setWindSpeed(value)
+			scene.wind.speed = value
+			this.saveSettings(settingsStorage)
+		})
+
+		const gustStrengthController = windFolder.add(
+			{ gustStrength: this.getWindGustStrength() },
+			'gustStrength',
+			0.0,
+			2.0,
+			0.01
+		)
+		gustStrengthController.onChange((value: number) => {
+			this.setWindGustStrength(value)
+			scene.wind.gustStrength = value
+			this.saveSettings(settingsStorage)
+		})
+
+		const gustFrequencyController = windFolder.add(
+			{ gustFrequency: this.getWindGustFrequency() },
+			'gustFrequency',
+			0.0,
+			1.0,
+			0.01
+		)
+		gustFrequencyController.onChange((value: number) => {
+			this.setWindGustFrequency(value)
+			scene.wind.gustFrequency = value
+			this.saveSettings(settingsStorage)
+		})
+
+		const turbulenceController = windFolder.add(
+			{ turbulence: this.getWindTurbulence() },
+			'turbulence',
+			0.0,
+			1.0,
+			0.01
+		)
+		turbulenceController.onChange((value: number) => {
+			this.setWindTurbulence(value)
+			scene.wind.turbulence = value
+			this.saveSettings(settingsStorage)
+		})
+		windFolder.open()
+
 		const postProcessingFolder = this.gui.addFolder('Post Processing')
 		if (composeMaterial) {
+			// Fog compositing
+			const fogCompositeController = postProcessingFolder.add(
+				{ fogComposite: this.getFogComposite() },
+				'fogComposite',
+				['additive', 'transmittance']
+			)
+			fogCompositeController.onChange((value: FogCompositeMode) => {
+				this.setFogComposite(value)
+				pipeline.setFogCompositeMode(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Tone mapping (grading runs before it in linear HDR, the vignette after it)
+			const toneMappingController = postProcessingFolder.add(
+				{ toneMapping: this.getToneMapping() },
+				'toneMapping',
+				TONE_MAPPING_OPERATORS
+			)
+			toneMappingController.onChange((value: ToneMappingOperator) => {
+				this.setToneMapping(value)
+				pipeline.setToneMapping(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Depth of field (on the composited image, so the fog is blurred along with the scene)
+			const dofFolder = postProcessingFolder.addFolder('Depth of Field')
+			const dofEnabledController = dofFolder.add({ enabled: this.getDofEnabled() }, 'enabled')
+			dofEnabledController.onChange((value: boolean) => {
+				this.setDofEnabled(value)
+				pipeline.setDepthOfFieldEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+			const dofFocusModeController = dofFolder.add(
+				{ autofocus: this.getDofFocusMode() },
+				'autofocus',
+				DEPTH_OF_FIELD_FOCUS_MODES
+			)
+			dofFocusModeController.onChange((value: DepthOfFieldFocusMode) => {
+				this.setDofFocusMode(value)
+				pipeline.setDepthOfFieldFocusMode(value)
+				this.saveSettings(settingsStorage)
+			})
+			const dofFocusDistanceController = dofFolder.add(
+				{ focusDistance: this.getDofFocusDistance() },
+				'focusDistance',
+				0.1,
+				20.0,
+				0.05
+			)
+			dofFocusDistanceController.onChange((value: number) => {
+				this.setDofFocusDistance(value)
+				pipeline.setDepthOfFieldFocusDistance(value)
+				this.saveSettings(settingsStorage)
+			})
+			const dofFStopController = dofFolder.add({ fStop: this.getDofFStop() }, 'fStop', 1.0, 22.0, 0.1)
+			dofFStopController.onChange((value: number) => {
+				this.setDofFStop(value)
+				pipeline.setDepthOfFieldFStop(value)
+				this.saveSettings(settingsStorage)
+			})
+			const dofMaxBlurController = dofFolder.add({ maxBlur: this.getDofMaxBlur() }, 'maxBlur', 2, 48, 1)
+			dofMaxBlurController.onChange((value: number) => {
+				this.setDofMaxBlur(value)
+				pipeline.setDepthOfFieldMaxBlur(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Motion blur (camera and object motion from the velocity buffer)
+			const motionBlurFolder = postProcessingFolder.addFolder('Motion Blur')
+			const motionBlurEnabledController = motionBlurFolder.add({ enabled: this.getMotionBlurEnabled() }, 'enabled')
+			motionBlurEnabledController.onChange((value: boolean) => {
+				this.setMotionBlurEnabled(value)
+				pipeline.setMotionBlurEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+			const motionBlurIntensityController = motionBlurFolder.add(
+				{ intensity: this.getMotionBlurIntensity() },
+				'intensity',
+				0.0,
+				1.0,
+				0.01
+			)
+			motionBlurIntensityController.onChange((value: number) => {
+				this.setMotionBlurIntensity(value)
+				pipeline.setMotionBlurIntensity(value)
+				this.saveSettings(settingsStorage)
+			})
+			const motionBlurSamplesController = motionBlurFolder.add(
+				{ samples: this.getMotionBlurSamples() },
+				'samples',
+				4,
+				32,
+				1
+			)
+			motionBlurSamplesController.onChange((value: number) => {
+				this.setMotionBlurSamples(value)
+				pipeline.setMotionBlurSamples(value)
+				this.saveSettings(settingsStorage)
+			})
+			const motionBlurMaxBlurController = motionBlurFolder.add(
+				{ maxBlur: this.getMotionBlurMaxBlur() },
+				'maxBlur',
+				4,
+				64,
+				1
+			)
+			motionBlurMaxBlurController.onChange((value: number) => {
+				this.setMotionBlurMaxBlur(value)
+				pipeline.setMotionBlurMaxBlur(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// Bloom (linear HDR, before tone mapping)
+			const bloomFolder = postProcessingFolder.addFolder('Bloom')
+			const bloomEnabledController = bloomFolder.add({ enabled: this.getBloomEnabled() }, 'enabled')
+			bloomEnabledController.onChange((value: boolean) => {
+				this.setBloomEnabled(value)
+				pipeline.setBloomEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+			const bloomThresholdController = bloomFolder.add(
+				{ threshold: this.getBloomThreshold() },
+				'threshold',
+				0.0,
+				4.0,
+				0.05
+			)
+			bloomThresholdController.onChange((value: number) => {
+				this.setBloomThreshold(value)
+				pipeline.setBloomThreshold(value)
+				this.saveSettings(settingsStorage)
+			})
+			const bloomKneeController = bloomFolder.add({ knee: this.getBloomKnee() }, 'knee', 0.0, 1.0, 0.01)
+			bloomKneeController.onChange((value: number) => {
+				this.setBloomKnee(value)
+				pipeline.setBloomKnee(value)
+				this.saveSettings(settingsStorage)
+			})
+			const bloomIntensityController = bloomFolder.add(
+				{ intensity: this.getBloomIntensity() },
+				'intensity',
+				0.0,
+				1.0,
+				0.01
+			)
+			bloomIntensityController.onChange((value: number) => {
+				this.setBloomIntensity(value)
+				pipeline.setBloomIntensity(value)
+				this.saveSettings(settingsStorage)
+			})
+			const bloomRadiusController = bloomFolder.add({ radius: this.getBloomRadius() }, 'radius', 0.0, 1.0, 0.01)
+			bloomRadiusController.onChange((value: number) => {
+				this.setBloomRadius(value)
+				pipeline.setBloomRadius(value)
+				this.saveSettings(settingsStorage)
+			})
+
+			// LUT grading (display values, after tone mapping)
+			const lutFolder = postProcessingFolder.addFolder('LUT')
+			const lutState = { lut: pipeline.getLUT()?.name ?? 'none' }
+			const selectLUT = (name: string) => {
+				const lut = resourceLoader.getLUT(name) ?? null
+				pipeline.setLUT(lut)
+				settingsStorage?.saveLUT(lut ? { name: lut.name, source: lut.source } : null).catch((error) => {
+					console.warn('Failed to save LUT to IndexedDB:', error)
+				})
+			}
+			let lutController = lutFolder.add(lutState, 'lut', ['none', ...resourceLoader.getLUTNames()])
+			lutController.onChange(selectLUT)
+			const lutStrengthController = lutFolder.add(
+				{ strength: this.getLUTStrength() },
+				'strength',
+				0.0,
+				1.0,
+				0.01
+			)
+			lutStrengthController.onChange((value: number) => {
+				this.setLUTStrength(value)
+				pipeline.setLUTStrength(value)
+				this.saveSettings(settingsStorage)
+			})
+			const lutImport = {
+				importCube: () => {
+					const fileInput = document.createElement('input')
+					fileInput.type = 'file'
+					fileInput.accept = '.cube'
+					fileInput.addEventListener('change', async () => {
+						const file = fileInput.files?.[0]
+						if (!file) return
+						try {
+							const lut = resourceLoader.addLUT(file.name.replace(/\.cube$/i, ''), await file.text())
+							lutState.lut = lut.name
+							selectLUT(lut.name)
+							// options() replaces the controller (in place) with one listing the new LUT
+							lutController = lutController.options(['none', ...resourceLoader.getLUTNames()])
+							lutController.onChange(selectLUT)
+						} catch (error) {
+							console.warn('Failed to import LUT:', error)
+						}
+					})
+					fileInput.click()
+				},
+			}
+			lutFolder.add(lutImport, 'importCube').name('import .cube')
+
 			// Vignette
+			const vignetteEnabledController = postProcessingFolder.add(
+				{ vignette: this.getVignetteEnabled() },
+				'vignette'
+			)
+			vignetteEnabledController.onChange((value: boolean) => {
+				this.setVignetteEnabled(value)
+				pipeline.setVignetteEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+
 			const vignetteIntensityController = postProcessingFolder.add(
 				{ vignetteIntensity: this.getVignetteIntensity() },
 				'vignetteIntensity',
@@ -364,6 +1494,16 @@ export class Settings {
 			})
 
 			// Color Correction
+			const colorCorrectionEnabledController = postProcessingFolder.add(
+				{ colorCorrection: this.getColorCorrectionEnabled() },
+				'colorCorrection'
+			)
+			colorCorrectionEnabledController.onChange((value: boolean) => {
+				this.setColorCorrectionEnabled(value)
+				pipeline.setColorCorrectionEnabled(value)
+				this.saveSettings(settingsStorage)
+			})
+
 			const exposureController = postProcessingFolder.add(
 				{ exposure: this.getExposure() },
 				'exposure',
@@ -4,6 +4,12 @@ const DB_NAME = 'TAAFogDB'
 const DB_VERSION = 1
 const STORE_NAME = 'settings'
 
+// Selected color grading LUT, stored with its .cube text so imported files survive reloads
+export interface StoredLUT {
+	name: string
+	source: string
+}
+
 export class SettingsStorage {
 	private static instance: SettingsStorage | null = null
 	private db: IDBDatabase | null = null
@@ -140,5 +146,54 @@ export class SettingsStorage {
 			}
 		})
 	}
-}
 
+	async saveLUT(lut: StoredLUT | null): Promise<void> {
+		if (!this.db) {
+			await this.init()
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction([STORE_NAME], 'readwrite')
+			const store = transaction.objectStore(STORE_NAME)
+			const request = lut ? store.put(lut, 'lut') : store.delete('lut')
+
+			request.onerror = () => {
+				reject(new Error('Failed to save LUT'))
+			}
+
+			request.onsuccess = () => {
+				resolve()
+			}
+		})
+	}
+
+	async loadLUT(): Promise<StoredLUT | null> {
+		if (!this.db) {
+			await this.init()
+		}
+
+		return new Promise((resolve, reject) => {
+			if (!this.db) {
+				reject(new Error('Database not initialized'))
+				return
+			}
+
+			const transaction = this.db.transaction([STORE_NAME], 'readonly')
+			const store = transaction.objectStore(STORE_NAME)
+			const request = store.get('lut')
+
+			request.onerror = () => {
+				reject(new Error('Failed to load LUT'))
+			}
+
+			request.onsuccess = () => {
+				resolve(request.result || null)
+			}
+		})
+	}
+}
@@ -0,0 +1,38 @@
+import * as THREE from 'three'
+
+export type FogVolumeShape = 'box' | 'ellipsoid' | 'heightLayer'
+
+export interface FogVolumeParameters {
+	shape?: FogVolumeShape
+	density?: number // Multiplied with the global fog density
+	albedo?: THREE.ColorRepresentation // Scattering color (fraction of extinction that scatters)
+	noiseScale?: number // Frequency multiplier for the density noise
+	noiseStrength?: number // 0 = uniform density, 1 = fully noise-modulated
+	heightFalloff?: number // Exponential falloff along local Y (height layers only)
+}
+
+/**
+ * Participating medium included in the fog ray-march.
+ * The object transform maps a unit shape into the world:
+ * - box: [-1, 1] on every local axis (scale = half extents)
+ * - ellipsoid: unit sphere (scale = radii)
+ * - heightLayer: everything below local y = 1, density falls off exponentially above local y = 0
+ */
+export class FogVolume extends THREE.Object3D {
+	public shape: FogVolumeShape
+	public density: number
+	public albedo: THREE.Color
+	public noiseScale: number
+	public noiseStrength: number
+	public heightFalloff: number
+
+	public constructor(parameters: FogVolumeParameters = {}) {
+		super()
+		this.shape = parameters.shape ?? 'ellipsoid'
+		this.density = parameters.density ?? 1.0
+		this.albedo = new THREE.Color(parameters.albedo ?? 0xffffff)
+		this.noiseScale = parameters.noiseScale ?? 1.0
+		this.noiseStrength = parameters.noiseStrength ?? 1.0
+		this.heightFalloff = parameters.heightFalloff ?? 3.0
+	}
+}
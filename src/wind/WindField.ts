@@ -0,0 +1,95 @@
+import * as THREE from 'three'
+
+export interface WindFieldParameters {
+	direction?: number // Heading in degrees around +Y (0 = +X, 90 = +Z)
+	speed?: number // Base speed in world units per second
+	gustStrength?: number // Relative speed increase at the peak of a gust
+	gustFrequency?: number // Gusts per second
+	turbulence?: number // Swirl amplitude relative to the current speed
+}
+
+/**
+ * Shared wind model for everything that moves in the scene.
+ * Fog noise is advected by the integrated offset, particles sample the local velocity
+ * and the trunk bends with the current (gusting) speed, so all of them stay in sync.
+ */
+export class WindField {
+	public direction: number
+	public speed: number
+	public gustStrength: number
+	public gustFrequency: number
+	public turbulence: number
+
+	private time: number = 0
+	private gust: number = 0
+	private readonly offset: THREE.Vector3 = new THREE.Vector3()
+
+	public constructor(parameters: WindFieldParameters = {}) {
+		this.direction = parameters.direction ?? 30
+		this.speed = parameters.speed ?? 0.15
+		this.gustStrength = parameters.gustStrength ?? 0.6
+		this.gustFrequency = parameters.gustFrequency ?? 0.2
+		this.turbulence = parameters.turbulence ?? 0.4
+	}
+
+	/**
+	 * Advances the wind by delta seconds (gust envelope and integrated advection offset)
+	 */
+	public update(delta: number): void {
+		this.time += delta
+
+		// Two incommensurate waves so gusts do not repeat visibly, squared for short sharp peaks
+		const phase = this.time * this.gustFrequency * Math.PI * 2
+		const wave = Math.sin(phase) * 0.6 + Math.sin(phase * 2.31 + 1.7) * 0.4
+		this.gust = Math.max(wave, 0) ** 2
+
+		this.offset.addScaledVector(this.getVelocity(new THREE.Vector3()), delta)
+	}
+
+	public getTime(): number {
+		return this.time
+	}
+
+	/**
+	 * Normalized horizontal wind direction
+	 */
+	public getDirection(target: THREE.Vector3): THREE.Vector3 {
+		const angle = THREE.MathUtils.degToRad(this.direction)
+		return target.set(Math.cos(angle), 0, Math.sin(angle))
+	}
+
+	/**
+	 * Current speed including gusts (world units per second)
+	 */
+	public getCurrentSpeed(): number {
+		return this.speed * (1 + this.gustStrength * this.gust)
+	}
+
+	/**
+	 * Uniform wind velocity (no turbulence)
+	 */
+	public getVelocity(target: THREE.Vector3): THREE.Vector3 {
+		return this.getDirection(target).multiplyScalar(this.getCurrentSpeed())
+	}
+
+	/**
+	 * Wind velocity at a world position, including a slowly evolving turbulent swirl
+	 */
+	public getVelocityAt(position: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+		this.getVelocity(target)
+
+		const t = this.time
+		const swirl = this.turbulence * this.getCurrentSpeed()
+		target.x += Math.sin(t * 0.7 + position.y * 3.1 + position.z * 1.3) * swirl
+		target.y += Math.cos(t * 0.9 + position.x * 2.3 + position.z * 0.7) * swirl * 0.5
+		target.z += Math.sin(t * 0.8 + position.x * 1.7 + position.y * 2.9) * swirl
+		return target
+	}
+
+	/**
+	 * Distance the air has travelled since start, used to advect fog noise
+	 */
+	public getOffset(): THREE.Vector3 {
+		return this.offset
+	}
+}
@@ -0,0 +1,128 @@
+import * as THREE from 'three'
+import windSwayChunk from '../shaders/chunks/windSway.glsl?raw'
+
+/**
+ * Wind bending of a mesh rooted at its local origin, done in the vertex shader (chunks/windSway.glsl).
+ * The tip at the given height moves by the bend, lower vertices quadratically less.
+ * Attached to the mesh so the pipeline's replacement materials bend it too (see WindSway.apply),
+ * the mesh's own materials are patched and should not be shared with other meshes.
+ */
+export class WindSway {
+	// Shared by reference with every material drawing the mesh
+	public readonly uniforms: { [uniform: string]: THREE.IUniform }
+
+	private readonly mesh: THREE.Mesh
+	private readonly restBoundingBox: THREE.Box3
+	private readonly restBoundingSphere: THREE.Sphere
+	private hasPreviousBend: boolean = false
+
+	public constructor(mesh: THREE.Mesh, height: number) {
+		this.mesh = mesh
+		this.uniforms = {
+			windSwayBend: { value: new THREE.Vector3() },
+			windSwayHeight: { value: height },
+			windSwayPreviousBend: { value: new THREE.Vector3() },
+		}
+
+		const geometry = mesh.geometry
+		geometry.computeBoundingBox()
+		geometry.computeBoundingSphere()
+		this.restBoundingBox = geometry.boundingBox!.clone()
+		this.restBoundingSphere = geometry.boundingSphere!.clone()
+
+		mesh.userData.windSway = this
+		const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+		for (const material of materials) {
+			this.patch(material)
+		}
+
+		// Shadow casting draws the mesh with a depth material, bent the same way
+		const depthMaterial = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking })
+		this.patch(depthMaterial)
+		mesh.customDepthMaterial = depthMaterial
+	}
+
+	public static get(object: THREE.Object3D): WindSway | undefined {
+		return object.userData.windSway
+	}
+
+	/**
+	 * Bends a replacement ShaderMaterial like the mesh it is drawn on (its vertex shader includes
+	 * chunks/windSway.glsl), or straightens it when the mesh does not sway
+	 */
+	public static apply(material: THREE.ShaderMaterial, object: THREE.Object3D): void {
+		const sway = WindSway.get(object)
+		const swaying = material.defines.USE_WIND_SWAY !== undefined
+		if (sway) {
+			Object.assign(material.uniforms, sway.uniforms)
+			material.defines.USE_WIND_SWAY = ''
+		} else {
+			delete material.defines.USE_WIND_SWAY
+		}
+		if (swaying !== (sway !== undefined)) {
+			material.needsUpdate = true
+		}
+	}
+
+	/**
+	 * Sets the tip displacement (local space) and grows the bounds to cover it
+	 */
+	public setBend(bend: THREE.Vector3): void {
+		this.uniforms.windSwayBend.value.copy(bend)
+		// The first bend has no motion
+		if (!this.hasPreviousBend) {
+			this.commitBend()
+		}
+
+		const geometry = this.mesh.geometry
+		const box = geometry.boundingBox!.copy(this.restBoundingBox)
+		box.min.x += Math.min(bend.x, 0)
+		box.max.x += Math.max(bend.x, 0)
+		box.min.z += Math.min(bend.z, 0)
+		box.max.z += Math.max(bend.z, 0)
+		geometry.boundingSphere!.copy(this.restBoundingSphere).radius += Math.hypot(bend.x, bend.z)
+	}
+
+	/**
+	 * Makes the current bend last frame's, for the velocity pass (see ObjectMotionHistory.commit)
+	 */
+	public commitBend(): void {
+		this.uniforms.windSwayPreviousBend.value.copy(this.uniforms.windSwayBend.value)
+		this.hasPreviousBend = true
+	}
+
+	public dispose(): void {
+		this.mesh.customDepthMaterial?.dispose()
+		this.mesh.customDepthMaterial = undefined
+		delete this.mesh.userData.windSway
+	}
+
+	private patch(material: THREE.Material): void {
+		const uniforms = this.uniforms
+		const previousOnBeforeCompile = material.onBeforeCompile.bind(material)
+		material.onBeforeCompile = (shader, renderer) => {
+			previousOnBeforeCompile(shader, renderer)
+			Object.assign(shader.uniforms, uniforms)
+
+			shader.vertexShader =
+				'#define USE_WIND_SWAY\n' +
+				windSwayChunk +
+				'\n' +
+				shader.vertexShader
+					.replace(
+						'#include <beginnormal_vertex>',
+						`#include <beginnormal_vertex>
+						objectNormal = applyWindSwayNormal( position, objectNormal, windSwayBend, windSwayHeight );`
+					)
+					.replace(
+						'#include <begin_vertex>',
+						`#include <begin_vertex>
+						transformed = applyWindSway( transformed, windSwayBend, windSwayHeight );`
+					)
+		}
+
+		const previousCacheKey = material.customProgramCacheKey.bind(material)
+		material.customProgramCacheKey = () => previousCacheKey() + '|windSway'
+		material.needsUpdate = true
+	}
+}